@@ -0,0 +1,179 @@
+import { cleanup, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import App from './App'
+import { STRICT_JSON_REMINDER } from './utils/agentRequest'
+import { EXTENDED_SCENARIO_TIERS } from './utils/scenarios'
+import { fixture, mockAgentFetch } from './test/agentFetch'
+import type { SavedEstimate } from './types'
+
+// Retries back off for up to a second before the second attempt
+const AGENT_WAIT = { timeout: 3000 }
+
+async function submitIdea(idea: string) {
+  const user = userEvent.setup()
+  render(<App />)
+  await user.type(screen.getByPlaceholderText(/I want to build an AI system/), idea)
+  await user.click(screen.getByRole('button', { name: 'Next' }))
+  return user
+}
+
+async function priceWorkload(user: ReturnType<typeof userEvent.setup>, unitOfWork: string, monthlyCount: string) {
+  await user.type(await screen.findByLabelText('Unit of work for line 1', {}, AGENT_WAIT), unitOfWork)
+  await user.type(screen.getByLabelText('Monthly volume for line 1'), monthlyCount)
+  await user.click(screen.getByRole('button', { name: 'Calculate Credits' }))
+}
+
+const savedEstimates = (): SavedEstimate[] =>
+  JSON.parse(window.localStorage.getItem('lyzr-credit-estimator:estimates') ?? '{"estimates":[]}').estimates
+
+describe('estimate wizard', () => {
+  it('runs idea → clarification → workload → results in one conversation', async () => {
+    const { requests } = mockAgentFetch({
+      scenarioParser: [fixture('scenarioParser.fenced-response'), fixture('scenarioParser.prose-and-comments')],
+      creditCalculator: [fixture('creditCalculator.nested-response')]
+    })
+
+    const user = await submitIdea('Draft replies to customer support emails')
+
+    const answer = await screen.findByRole('textbox', { name: /how many support emails/i }, AGENT_WAIT)
+    await user.type(answer, 'About 10,000')
+    await user.click(screen.getByRole('button', { name: 'Send Answers' }))
+
+    await priceWorkload(user, 'one support email', '10000')
+
+    expect(await screen.findByText('Light Usage', {}, AGENT_WAIT)).toBeInTheDocument()
+    expect(screen.getByText('Heavy Usage')).toBeInTheDocument()
+
+    // Clarifications and pricing stay in the sessions the conversation started
+    const [parse, clarify, price] = requests
+    expect(clarify.sessionId).toBe(parse.sessionId)
+    expect(new Set(requests.map((request) => request.userId)).size).toBe(1)
+    expect(price.agent).toBe('creditCalculator')
+
+    // Golden prompts: any change to what the agents are sent shows up here
+    expect(requests.map(({ agent, message }) => ({ agent, message }))).toMatchSnapshot()
+
+    const [saved] = savedEstimates()
+    expect(saved.calculation.calculations).toMatchSnapshot()
+    expect(saved.conversationId).toEqual(expect.any(String))
+  })
+
+  it('goes straight to the workload step when there is nothing to ask', async () => {
+    mockAgentFetch({
+      scenarioParser: [fixture('scenarioParser.prose-and-comments')],
+      creditCalculator: [fixture('creditCalculator.string-numbers')]
+    })
+
+    const user = await submitIdea('Qualify inbound website chats')
+    await priceWorkload(user, 'one chat', '3000')
+
+    expect(await screen.findByText('Light Usage', {}, AGENT_WAIT)).toBeInTheDocument()
+    expect(screen.getByText('Page count per document is a guess')).toBeInTheDocument()
+    expect(savedEstimates()[0].calculation.calculations).toMatchObject({ monthly_total_light: 12000, dollar_cost_heavy: 360 })
+  })
+
+  it('reports the results in the default scenario tiers from the settings', async () => {
+    window.localStorage.setItem('lyzr-credit-estimator:scenario-tiers', JSON.stringify(EXTENDED_SCENARIO_TIERS))
+    const { requests } = mockAgentFetch({
+      scenarioParser: [fixture('scenarioParser.prose-and-comments')],
+      creditCalculator: [fixture('creditCalculator.tier-estimates')]
+    })
+
+    const user = await submitIdea('Qualify inbound website chats')
+    await priceWorkload(user, 'one chat', '3000')
+
+    expect(await screen.findByText('Worst Case', {}, AGENT_WAIT)).toBeInTheDocument()
+    expect(screen.getAllByText('Estimated by the agent')).toHaveLength(2)
+    expect(screen.getByText('Scaled from the heavy scenario')).toBeInTheDocument()
+    expect(requests[1].message).toContain('"name":"Pilot","scales":"light_scenario","multiplier":0.25')
+
+    const { tiers } = savedEstimates()[0].calculation
+    expect(tiers?.map((tier) => [tier.label, tier.monthly_credits, tier.dollar_cost, tier.source])).toEqual([
+      ['Pilot', 2500, 25, 'agent'],
+      ['Typical', 12000, 120, 'app'],
+      ['Peak', 36000, 360, 'app'],
+      ['Worst Case', 90000, 900, 'agent']
+    ])
+  })
+
+  it('keeps an estimate priced under a rate card this browser does not have as recorded', async () => {
+    mockAgentFetch({
+      scenarioParser: [fixture('scenarioParser.prose-and-comments')],
+      creditCalculator: [fixture('creditCalculator.string-numbers')]
+    })
+    const user = await submitIdea('Qualify inbound website chats')
+    await priceWorkload(user, 'one chat', '3000')
+    await screen.findByText('Light Usage', {}, AGENT_WAIT)
+
+    cleanup()
+    const key = 'lyzr-credit-estimator:estimates'
+    const stored = JSON.parse(window.localStorage.getItem(key) ?? '{}')
+    stored.estimates[0].rateCardVersion = '1999-01'
+    window.localStorage.setItem(key, JSON.stringify(stored))
+
+    render(<App />)
+    await user.click(await screen.findByText(stored.estimates[0].name))
+
+    expect(await screen.findByText(/Priced with rate card 1999-01, which is not published in this browser/)).toBeInTheDocument()
+    expect(screen.queryByText('Refine This Estimate')).not.toBeInTheDocument()
+    expect(screen.queryByText('Monthly Budget')).not.toBeInTheDocument()
+    expect(savedEstimates()[0]).toMatchObject({ rateCardVersion: '1999-01', calculation: stored.estimates[0].calculation })
+  })
+
+  it('asks again for strict JSON after an unreadable reply', async () => {
+    const { requests } = mockAgentFetch({
+      scenarioParser: [fixture('scenarioParser.prose-and-comments')],
+      creditCalculator: [fixture('creditCalculator.refusal'), fixture('creditCalculator.nested-response')]
+    })
+
+    const user = await submitIdea('Qualify inbound website chats')
+    await priceWorkload(user, 'one chat', '3000')
+
+    expect(await screen.findByText('Light Usage', {}, AGENT_WAIT)).toBeInTheDocument()
+    const [first, second] = requests.filter((request) => request.agent === 'creditCalculator')
+    expect(first.message).not.toContain(STRICT_JSON_REMINDER)
+    expect(second.message).toContain(STRICT_JSON_REMINDER)
+  })
+
+  it('returns to the workload step with field errors when the calculation is malformed', async () => {
+    mockAgentFetch({
+      scenarioParser: [fixture('scenarioParser.prose-and-comments')],
+      creditCalculator: [fixture('creditCalculator.missing-fields')]
+    })
+
+    const user = await submitIdea('Qualify inbound website chats')
+    await priceWorkload(user, 'one chat', '3000')
+
+    expect(await screen.findByText('Agent returned malformed data', {}, AGENT_WAIT)).toBeInTheDocument()
+    expect(screen.getByText('calculations.monthly_total_heavy')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Calculate Credits' })).toBeInTheDocument()
+    expect(savedEstimates()).toHaveLength(0)
+  })
+
+  it('reports a truncated reply once retries run out', async () => {
+    mockAgentFetch({
+      scenarioParser: [fixture('scenarioParser.prose-and-comments')],
+      creditCalculator: [fixture('creditCalculator.truncated'), fixture('creditCalculator.truncated')]
+    })
+
+    const user = await submitIdea('Qualify inbound website chats')
+    await priceWorkload(user, 'one chat', '3000')
+
+    expect(await screen.findByText('Unreadable agent response', {}, AGENT_WAIT)).toBeInTheDocument()
+    expect(savedEstimates()).toHaveLength(0)
+  })
+
+  it('shows service errors and keeps the idea for another try', async () => {
+    const { requests } = mockAgentFetch({
+      scenarioParser: [{ status: 503 }, { status: 503 }],
+      creditCalculator: []
+    })
+
+    await submitIdea('Summarise sales calls')
+
+    expect(await screen.findByText('Agent service error (503)', {}, AGENT_WAIT)).toBeInTheDocument()
+    expect(screen.getByPlaceholderText(/I want to build an AI system/)).toHaveValue('Summarise sales calls')
+    expect(requests).toHaveLength(2)
+  })
+})
@@ -1,374 +1,438 @@
-import React, { useState, useEffect } from 'react'
-import parseLLMJson from './utils/jsonParser'
-
-interface AgentResponse {
-  result: any
-  confidence: number
-  metadata: any
-}
-
-interface ScenarioData {
-  scenario_summary: string
-  questions_asked: string[]
-  user_responses: string[]
-  defaults_applied: Record<string, any>
-}
-
-interface CreditCalculation {
-  summary: {
-    light_scenario: string
-    heavy_scenario: string
-  }
-  calculations: {
-    per_unit_credits: number
-    monthly_total_light: number
-    monthly_total_heavy: number
-    dollar_cost_light: number
-    dollar_cost_heavy: number
-    legacy_comparison_light: number
-    legacy_comparison_heavy: number
-  }
-  assumptions: string[]
-  warnings: string[]
-}
+import { useState } from 'react'
+import { createAgentClient } from './utils/agentClient'
+import { toAgentError } from './utils/agentErrors'
+import type { FieldError } from './utils/validation'
+import { parseScenarioResult } from './utils/pipeline'
+import { createCacheStore, ResponseCache } from './utils/responseCache'
+import {
+  buildClarificationMessage,
+  MAX_CLARIFICATION_ROUNDS,
+  pendingQuestions,
+  userResponses,
+  type Clarification
+} from './utils/clarification'
+import { HistorySidebar } from './components/HistorySidebar'
+import { ComparisonView } from './components/ComparisonView'
+import { DevPanel } from './components/DevPanel'
+import { RateCardAdmin } from './components/RateCardAdmin'
+import { LocaleSettingsPanel } from './components/LocaleSettingsPanel'
+import { BatchView } from './components/BatchView'
+import { IdeaStep } from './components/IdeaStep'
+import { ClarifyStep } from './components/ClarifyStep'
+import { WorkloadStep } from './components/WorkloadStep'
+import { ProcessingScreen } from './components/ProcessingScreen'
+import { ErrorBanner } from './components/ErrorBanner'
+import { ResultsView } from './components/ResultsView'
+import { ScenarioTierSettings } from './components/ScenarioTierSettings'
+import { isSideView, type SideView, type WizardEvent } from './utils/wizard'
+import { parseJsonDocument } from './utils/exporters'
+import { decodeEstimate } from './utils/router'
+import { MIN_COMPARE } from './utils/comparison'
+import { useHashRoute } from './hooks/useHashRoute'
+import type { NewEstimate } from './utils/estimateRepository'
+import { useSavedEstimates } from './hooks/useSavedEstimates'
+import { useRateCards } from './hooks/useRateCards'
+import { useLocaleSettings } from './hooks/useLocaleSettings'
+import { useScenarioTiers } from './hooks/useScenarioTiers'
+import { useBatchRun, type BatchSettings } from './hooks/useBatchRun'
+import { useConversation } from './hooks/useConversation'
+import { useWizard } from './hooks/useWizard'
+import { useAgentCalls } from './hooks/useAgentCalls'
+import { useEstimate } from './hooks/useEstimate'
+import { agentConfig } from './config'
+import type { ScenarioData, SavedEstimate, Step } from './types'
+
+const agentClient = createAgentClient(agentConfig)
+const responseCache = new ResponseCache(createCacheStore(), agentConfig.cacheTtlMs)
 
 // Sequential agent processing with proper JSON parsing
 function App() {
-  const [currentStep, setCurrentStep] = useState<'idea' | 'processing' | 'unit' | 'count' | 'results'>('idea')
-  const [businessIdea, setBusinessIdea] = useState('')
-  const [unitOfWork, setUnitOfWork] = useState('')
-  const [monthlyCount, setMonthlyCount] = useState('')
-  const [scenarioData, setScenarioData] = useState<ScenarioData | null>(null)
-  const [creditData, setCreditData] = useState<CreditCalculation | null>(null)
-  const [showLightDetails, setShowLightDetails] = useState(false)
-  const [showHeavyDetails, setShowHeavyDetails] = useState(false)
-  const [showComparison, setShowComparison] = useState(false)
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-
-  // Sequential agent calls with proper JSON parsing
-  const callAgent = async (agentId: string, message: string): Promise<AgentResponse | null> => {
-    const userId = `user-${Math.random().toString(36).substr(2, 9)}@app.com`
-    const sessionId = `${agentId}-${Math.random().toString(36).substr(2, 12)}`
-
-    try {
-      setCurrentStep('processing')
-
-      const response = await fetch('https://agent-prod.studio.lyzr.ai/v3/inference/chat/', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': 'sk-default-obhGvAo6gG9YT9tu6ChjyXLqnw7TxSGY'
-        },
-        body: JSON.stringify({
-          user_id: userId,
-          agent_id: agentId,
-          session_id: sessionId,
-          message: message
-        })
-      })
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      const text = await response.text()
-      const parsed = parseLLMJson(text)
-
-      if (!parsed) {
-        throw new Error('Failed to parse agent response')
-      }
-
-      return {
-        result: parsed.result || parsed,
-        confidence: parsed.confidence || 0,
-        metadata: parsed.metadata || {}
-      }
-    } catch (error) {
-      console.error('Agent call failed:', error)
-      setError('An error occurred contacting the agent')
-      return null
+  const wizard = useWizard()
+  const [view, setView] = useState<SideView | null>(null)
+  const [scenarioCachedAt, setScenarioCachedAt] = useState<string | null>(null)
+  const [clarifications, setClarifications] = useState<Clarification[]>([])
+  const [clarificationDraft, setClarificationDraft] = useState<Clarification[]>([])
+  const [clarificationRound, setClarificationRound] = useState(0)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [importErrors, setImportErrors] = useState<FieldError[] | null>(null)
+  const [showDevPanel, setShowDevPanel] = useState(false)
+  const [forceRefresh, setForceRefresh] = useState(false)
+  const savedEstimates = useSavedEstimates()
+  const rateCards = useRateCards()
+  const { settings: localeSettings, update: updateLocaleSettings, format } = useLocaleSettings()
+  const scenarioTiers = useScenarioTiers()
+  const batch = useBatchRun(agentClient)
+  const session = useConversation()
+  const agents = useAgentCalls(agentClient, responseCache, agentConfig, session.record)
+
+  // Cancellation is not an error worth shouting about; everything else is logged and shown
+  const handleFailure = (err: unknown) => {
+    const agentError = toAgentError(err)
+    if (agentError.category === 'cancelled') {
+      wizard.send({ type: 'cancelled' })
+      return
     }
+    console.error(`Agent call failed [${agentError.category}]:`, agentError)
+    wizard.send({ type: 'failed', error: agentError })
+  }
+
+  const estimate = useEstimate({
+    agents,
+    session,
+    wizard,
+    savedEstimates,
+    rateCards,
+    tiers: scenarioTiers.tiers,
+    agentIds: agentConfig.agentIds,
+    format,
+    onFailure: handleFailure
+  })
+  const { businessIdea, scenario: scenarioData, lineItems, creditData } = estimate
+  const currentStep: Step = view ?? wizard.step
+
+  const clearResponseCache = async () => {
+    await responseCache.clear()
+    setScenarioCachedAt(null)
+  }
+
+  // Ask the user anything the ScenarioParser still wants to know, otherwise move on
+  const settleScenario = (scenario: ScenarioData, answered: Clarification[], round: number) => {
+    const pending = pendingQuestions(scenario, answered)
+    const responses = [...new Set([...scenario.user_responses, ...userResponses(answered)])]
+    estimate.setScenario({ ...scenario, user_responses: responses })
+    setClarifications(answered)
+    setClarificationRound(round)
+
+    const questions = pending.length > 0 && round < MAX_CLARIFICATION_ROUNDS
+    setClarificationDraft(questions ? pending.map((question) => ({ question, answer: '' })) : [])
+    wizard.send({ type: 'scenarioParsed', questions })
   }
 
   // Sequential agent processing
   const processBusinessIdea = async () => {
-    if (!businessIdea.trim()) return
-
-    setLoading(true)
-    setError(null)
-    setCurrentStep('processing')
+    if (!businessIdea.trim() || !wizard.accepts({ type: 'submitIdea' })) return
+    wizard.send({ type: 'submitIdea' })
 
     try {
       // Step 1: Call ScenarioParser to analyze the business idea
-      const scenarioResponse = await callAgent('68e01d2cf40da92f699a9501', businessIdea)
+      const conversation = await session.begin()
+      const scenario = await agents.cachedCall('scenarioParser', businessIdea, parseScenarioResult, conversation, forceRefresh)
+      setScenarioCachedAt(scenario.cached ? scenario.createdAt : null)
+      settleScenario(scenario.value, [], 0)
 
-      if (!scenarioResponse?.result) {
-        throw new Error('Failed to process business scenario')
-      }
+    } catch (err) {
+      handleFailure(err)
+    }
+  }
+
+  // Send the user's answers back to the ScenarioParser in the same session
+  const submitClarifications = async () => {
+    if (!wizard.accepts({ type: 'submitAnswers' })) return
+    const round = clarificationDraft.map((c) => ({ ...c, answer: c.answer?.trim() || null }))
+    const answered = [...clarifications, ...round]
+    wizard.send({ type: 'submitAnswers' })
 
-      setScenarioData(scenarioResponse.result)
-      setCurrentStep('unit')
+    try {
+      const message = buildClarificationMessage(round, scenarioCachedAt ? businessIdea : undefined)
+      const scenarioResponse = await agents.call('scenarioParser', message, session.conversation ?? undefined)
+      setScenarioCachedAt(null)
+      settleScenario(parseScenarioResult(scenarioResponse.result), answered, clarificationRound + 1)
 
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to process business idea')
-      setCurrentStep('idea')
-    } finally {
-      setLoading(false)
+      handleFailure(err)
     }
   }
 
-  const calculateCredits = async () => {
-    if (!unitOfWork.trim() || !monthlyCount) return
+  // Accept the agent's defaults for everything still open
+  const acceptDefaults = () => {
+    const answered = [...clarifications, ...clarificationDraft.map((c) => ({ ...c, answer: null }))]
+    setClarifications(answered)
+    setClarificationDraft([])
+    wizard.send({ type: 'acceptDefaults' })
+  }
+
+  const updateClarification = (index: number, answer: string) => {
+    setClarificationDraft((draft) => draft.map((c, i) => (i === index ? { ...c, answer } : c)))
+  }
 
-    setLoading(true)
-    setError(null)
+  const resetForm = () => {
+    agents.cancel()
+    estimate.reset()
+    setScenarioCachedAt(null)
+    session.end()
+    setClarifications([])
+    setClarificationDraft([])
+    setClarificationRound(0)
+    setView(null)
+    wizard.send({ type: 'reset' })
+  }
 
-    const calculatorMessage = `
-      Business idea: ${businessIdea}
-      Unit of work: ${unitOfWork}
-      Monthly count: ${monthlyCount}
-      ${scenarioData ? `Defaults applied: ${JSON.stringify(scenarioData.defaultsApplied)}` : ''}
-    `
+  // Show a finished estimate without calling the agents again
+  const loadEstimate = (saved: NewEstimate, id: string | null) => {
+    agents.cancel()
+    estimate.load(saved, id)
+    setScenarioCachedAt(null)
+    session.resume(saved.conversationId)
+    setView(null)
+    wizard.send({ type: 'opened' })
+  }
 
-    try {
-      // Step 2: Call CreditCalculator with parsed scenario data
-      const creditResponse = await callAgent('68e01d3a010a31eba98903e5', calculatorMessage)
+  const openEstimate = (saved: SavedEstimate) => loadEstimate(saved, saved.id)
 
-      if (!creditResponse?.result) {
-        throw new Error('Failed to calculate credits')
-      }
+  const openSharedEstimate = async (payload: string) => {
+    const shared = await decodeEstimate(payload)
+    if (!shared.ok) {
+      setImportErrors(shared.errors)
+      return
+    }
+    setImportErrors(null)
+    loadEstimate(shared.estimate, null)
+  }
 
-      setCreditData(creditResponse.result)
-      setCurrentStep('results')
+  const deleteEstimate = async (id: string) => {
+    await savedEstimates.remove(id)
+    if (id === estimate.activeEstimateId) estimate.setActiveEstimateId(null)
+    setCompareIds((ids) => ids.filter((compareId) => compareId !== id))
+  }
 
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to calculate credits')
-    } finally {
-      setLoading(false)
+  const toggleCompare = (id: string) => {
+    setCompareIds((ids) => (ids.includes(id) ? ids.filter((compareId) => compareId !== id) : [...ids, id]))
+  }
+
+  const importEstimate = async (file: File) => {
+    const imported = parseJsonDocument(await file.text())
+    if (!imported.ok) {
+      setImportErrors(imported.errors)
+      return
     }
+    setImportErrors(null)
+    openEstimate(await savedEstimates.save(imported.estimate))
   }
 
-  if (loading || currentStep === 'processing') {
+  const comparedEstimates = compareIds
+    .map((id) => savedEstimates.estimates.find((saved) => saved.id === id))
+    .filter((saved): saved is SavedEstimate => saved !== undefined)
+
+  // Browser back/forward can only land on steps whose data is still around
+  const navigate = (step: Step): boolean => {
+    if (wizard.busy) return false
+    if (isSideView(step)) {
+      if (step === 'compare' && comparedEstimates.length < MIN_COMPARE) return false
+      setView(step)
+      return true
+    }
+    const event: WizardEvent = {
+      type: 'navigate',
+      to: step,
+      available: { scenario: scenarioData !== null, questions: clarificationDraft.length > 0, results: creditData !== null }
+    }
+    if (!wizard.accepts(event)) return false
+    setView(null)
+    wizard.send(event)
+    return true
+  }
+
+  useHashRoute({ step: currentStep, onNavigate: navigate, onShared: openSharedEstimate })
+
+  // Batch rows are priced with the active rate card and the selected plan
+  const batchSettings: BatchSettings = {
+    card: rateCards.active,
+    planId: estimate.planId,
+    tiers: scenarioTiers.tiers,
+    format,
+    agentIds: agentConfig.agentIds,
+    userId: session.userId ?? undefined,
+    request: {
+      timeoutsMs: agentConfig.timeoutsMs,
+      retry: agentConfig.retry,
+      onResponse: agents.addExchange
+    },
+    concurrency: agentConfig.batchConcurrency,
+    cache: responseCache,
+    force: forceRefresh
+  }
+
+  if (wizard.busy) {
     return (
-      <div className="min-h-screen flex items-center justify-center" style={{ backgroundColor: '#F8F9FB' }}>
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-lg" style={{ color: '#202124' }}>Processing your request with Lyzr agents...</p>
-        </div>
-      </div>
+      <ProcessingScreen
+        progress={estimate.lineProgress && { ...estimate.lineProgress, label: lineItems[estimate.lineProgress.index]?.unitOfWork ?? '' }}
+        retryNotice={agents.retryNotice}
+        activeAgent={agents.activeAgent}
+        streamProgress={agents.streamProgress}
+        onCancel={agents.cancel}
+        format={format}
+      />
     )
   }
 
   return (
     <div className="min-h-screen flex flex-col" style={{ backgroundColor: '#F8F9FB' }}>
       {/* Header */}
-      <header className="py-8 px-4 text-center" style={{ backgroundColor: '#1B1F23' }}>
+      <header className="relative py-8 px-4 text-center" style={{ backgroundColor: '#1B1F23' }}>
+        <div className="absolute top-4 right-4">
+          <LocaleSettingsPanel settings={localeSettings} onChange={updateLocaleSettings} />
+        </div>
         <h1 className="text-3xl font-bold text-white mb-2">Lyzr Credit Estimator</h1>
         <p className="text-gray-300">Estimate your credit usage for AI-powered business ideas</p>
       </header>
 
-      {/* Main Content */}
-      <main className="flex-1 px-4 py-8 max-w-4xl mx-auto w-full">
-        {currentStep === 'idea' && currentStep !== 'processing' && (
-          <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
-            <h2 className="text-2xl font-semibold mb-6" style={{ color: '#1B1F23' }}>Share Your Business Idea</h2>
-            <p className="mb-6" style={{ color: '#202124' }}>Describe what you want to build with AI automation</p>
-            <textarea
-              value={businessIdea}
-              onChange={(e) => setBusinessIdea(e.target.value)}
-              placeholder="e.g., I want to build an AI system that automatically responds to customer support emails..."
-              className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-transparent"
-              rows={4}
+      <div className="flex-1 flex flex-col md:flex-row gap-8 px-4 py-8 max-w-6xl mx-auto w-full">
+        <HistorySidebar
+          estimates={savedEstimates.estimates}
+          activeId={estimate.activeEstimateId}
+          onOpen={openEstimate}
+          onRename={(id, name) => savedEstimates.update(id, { name })}
+          onDuplicate={(id) => savedEstimates.duplicate(id)}
+          onDelete={deleteEstimate}
+          compareIds={compareIds}
+          onToggleCompare={toggleCompare}
+          onCompare={() => setView('compare')}
+          onImport={importEstimate}
+          format={format}
+        />
+
+        {/* Main Content */}
+        <main className="flex-1 min-w-0">
+          {currentStep === 'idea' && (
+            <IdeaStep
+              idea={businessIdea}
+              onChange={estimate.setBusinessIdea}
+              onSubmit={processBusinessIdea}
+              onBatch={() => setView('batch')}
+              forceRefresh={forceRefresh}
+              onForceRefreshChange={setForceRefresh}
             />
-            <button
-              onClick={processBusinessIdea}
-              disabled={!businessIdea.trim()}
-              className="mt-6 px-8 py-3 rounded-lg font-semibold text-white transition-all disabled:opacity-50 hover:opacity-90 transform hover:scale-105"
-              style={{ backgroundColor: '#6C63FF' }}
-            >
-              Next
-            </button>
-          </div>
-        )}
-
-        {currentStep === 'unit' && currentStep !== 'processing' && (
-          <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
-            <h2 className="text-2xl font-semibold mb-6" style={{ color: '#1B1F23' }}>Define Unit of Work</h2>
-            <p className="mb-6" style={{ color: '#202124' }}>What constitutes one unit of work in your business?</p>
-            <input
-              type="text"
-              value={unitOfWork}
-              onChange={(e) => setUnitOfWork(e.target.value)}
-              placeholder="e.g., one customer support email response"
-              className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-transparent"
+          )}
+
+          {importErrors && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4" style={{ color: '#E74C3C' }}>
+              <p className="font-semibold">Could not open estimate</p>
+              <ul className="mt-2 text-sm list-disc list-inside">
+                {importErrors.map((fieldError) => (
+                  <li key={fieldError.path}>
+                    <span className="font-mono">{fieldError.path}</span> {fieldError.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {currentStep === 'compare' && (
+            <ComparisonView
+              estimates={comparedEstimates}
+              format={format}
+              onClose={() => setView(null)}
             />
-            <button
-              onClick={() => setCurrentStep('count')}
-              disabled={!unitOfWork.trim()}
-              className="mt-6 px-8 py-3 rounded-lg font-semibold text-white transition-all disabled:opacity-50 hover:opacity-90 transform hover:scale-105"
-              style={{ backgroundColor: '#6C63FF' }}
-            >
-              Next
-            </button>
-          </div>
-        )}
-
-        {currentStep === 'count' && currentStep !== 'processing' && (
-          <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
-            <h2 className="text-2xl font-semibold mb-6" style={{ color: '#1B1F23' }}>Monthly Volume</h2>
-            <p className="mb-6" style={{ color: '#202124' }}>How many of these units per month?</p>
-            <input
-              type="number"
-              value={monthlyCount}
-              onChange={(e) => setMonthlyCount(e.target.value)}
-              placeholder="e.g., 10,000"
-              className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-transparent"
+          )}
+
+          {currentStep === 'rates' && (
+            <RateCardAdmin
+              cards={rateCards.cards}
+              active={rateCards.active}
+              onPublish={rateCards.publish}
+              onActivate={rateCards.activate}
+              onClose={() => setView(null)}
             />
-            <button
-              onClick={calculateCredits}
-              disabled={!monthlyCount || Number(monthlyCount) <= 0}
-              className="mt-6 px-8 py-3 rounded-lg font-semibold text-white transition-all disabled:opacity-50 hover:opacity-90 transform hover:scale-105"
-              style={{ backgroundColor: '#6C63FF' }}
-            >
-              Calculate Credits
-            </button>
-          </div>
-        )}
-
-        {currentStep === 'results' && creditData && (
-          <>
-            <div className="text-center mb-8">
-              <button
-                onClick={resetForm}
-                className="px-6 py-2 rounded-lg text-white transition-all hover:opacity-90"
-                style={{ backgroundColor: '#2980B9' }}
-              >
-                Start New Estimate
-              </button>
-            </div>
+          )}
 
-            {/* Results Grid */}
-            <div className="grid md:grid-cols-2 gap-8 mb-8">
-              {/* Light Usage */}
-              <div className="bg-white rounded-xl shadow-lg p-8" style={{ borderLeft: '4px solid #27AE60' }}>
-                <h3 className="text-xl font-semibold mb-6" style={{ color: '#27AE60' }}>Light Usage</h3>
-                <div className="text-center mb-6">
-                  <div className="text-4xl font-bold mb-2" style={{ color: '#1B1F23' }}>~{creditData.summary.light_scenario.split(' ')[0]}</div>
-                  <div className="text-sm" style={{ color: '#202124' }}>credits per month</div>
-                </div>
-                <div className="space-y-3">
-                  {creditData.assumptions.map((assumption: string, i: number) => (
-                    <div key={i} className="flex items-start">
-                      <div className="w-2 h-2 mt-2 mr-3 rounded-full" style={{ backgroundColor: '#27AE60' }}></div>
-                      <div className="text-sm" style={{ color: '#202124' }}>{assumption}</div>
-                    </div>
-                  ))}
-                </div>
-                <div className="mt-6 p-4 rounded-lg" style={{ backgroundColor: '#F8F9FB' }}>
-                  <p className="text-sm" style={{ color: '#202124' }}>
-                    Agent-action credits only. AI model tokens billed separately.
-                  </p>
-                </div>
-                <button
-                  onClick={() => setShowLightDetails(!showLightDetails)}
-                  className="mt-4 text-sm underline"
-                  style={{ color: '#6C63FF' }}
-                >
-                  {showLightDetails ? 'Hide' : 'Show'} details/JSON
-                </button>
-                {showLightDetails && (
-                  <div className="mt-4 p-4 rounded-lg text-xs overflow-auto" style={{ backgroundColor: '#F8F9FB', color: '#202124' }}>
-                    <pre>{JSON.stringify(creditData.calculations, null, 2)}</pre>
-                  </div>
-                )}
-              </div>
-
-              {/* Heavy Usage */}
-              <div className="bg-white rounded-xl shadow-lg p-8" style={{ borderLeft: '4px solid #F1C40F' }}>
-                <h3 className="text-xl font-semibold mb-6" style={{ color: '#BF9A29' }}>Heavy Usage</h3>
-                <div className="text-center mb-6">
-                  <div className="text-4xl font-bold mb-2" style={{ color: '#1B1F23' }}>~{creditData.summary.heavy_scenario.split(' ')[0]}</div>
-                  <div className="text-sm" style={{ color: '#202124' }}>credits per month</div>
-                </div>
-                <div className="space-y-3">
-                  {creditData.assumptions.map((assumption: string, i: number) => (
-                    <div key={i} className="flex items-start">
-                      <div className="w-2 h-2 mt-2 mr-3 rounded-full" style={{ backgroundColor: '#F1C40F' }}></div>
-                      <div className="text-sm" style={{ color: '#202124' }}>{assumption}</div>
-                    </div>
-                  ))}
-                </div>
-                <div className="mt-6 p-4 rounded-lg" style={{ backgroundColor: '#F8F9FB' }}>
-                  <p className="text-sm" style={{ color: '#202124' }}>
-                    Agent-action credits only. AI model tokens billed separately.
-                  </p>
-                </div>
-                <button
-                  onClick={() => setShowHeavyDetails(!showHeavyDetails)}
-                  className="mt-4 text-sm underline"
-                  style={{ color: '#6C63FF' }}
-                >
-                  {showHeavyDetails ? 'Hide' : 'Show'} details/JSON
-                </button>
-                {showHeavyDetails && (
-                  <div className="mt-4 p-4 rounded-lg text-xs overflow-auto" style={{ backgroundColor: '#F8F9FB', color: '#202124' }}>
-                    <pre>{JSON.stringify(creditData.calculations, null, 2)}</pre>
-                  </div>
-                )}
-              </div>
-            </div>
+          {currentStep === 'tiers' && (
+            <ScenarioTierSettings
+              tiers={scenarioTiers.tiers}
+              onSave={scenarioTiers.update}
+              onClose={() => setView(null)}
+            />
+          )}
+
+          {currentStep === 'batch' && (
+            <BatchView
+              results={batch.results}
+              running={batch.running}
+              concurrency={agentConfig.batchConcurrency}
+              onStart={(rows) => batch.start(rows, batchSettings)}
+              onRetry={(id) => batch.retry(batchSettings, id)}
+              onCancel={batch.cancel}
+              onClear={batch.clear}
+              onOpen={(opened) => loadEstimate(opened, null)}
+              onSaveAll={async (estimates) => {
+                for (const finished of estimates) await savedEstimates.save(finished)
+              }}
+              onClose={() => setView(null)}
+              format={format}
+            />
+          )}
+
+          {currentStep === 'clarify' && scenarioData && (
+            <ClarifyStep
+              scenario={scenarioData}
+              questions={clarificationDraft}
+              round={clarificationRound}
+              maxRounds={MAX_CLARIFICATION_ROUNDS}
+              onAnswer={updateClarification}
+              onSubmit={submitClarifications}
+              onAcceptDefaults={acceptDefaults}
+            />
+          )}
+
+          {currentStep === 'workload' && (
+            <WorkloadStep
+              items={lineItems}
+              onItemsChange={estimate.setLineItems}
+              budget={estimate.budgetDraft}
+              onBudgetChange={estimate.setBudgetDraft}
+              currency={localeSettings.currency}
+              plans={rateCards.active.plans}
+              planId={estimate.planId}
+              onPlanChange={estimate.setPlanId}
+              canCalculate={estimate.canCalculate}
+              onCalculate={() => estimate.calculate(forceRefresh)}
+              forceRefresh={forceRefresh}
+              onForceRefreshChange={setForceRefresh}
+              format={format}
+            />
+          )}
+
+          {currentStep === 'results' && estimate.current && (
+            <ResultsView
+              estimate={estimate.current}
+              reconciliations={estimate.reconciliations}
+              pricedCard={estimate.pricedCard}
+              rateCard={estimate.rateCard}
+              budgetKey={estimate.activeEstimateId ?? 'current'}
+              scenarioCachedAt={scenarioCachedAt}
+              conversation={session.conversation}
+              refining={estimate.refining}
+              busy={wizard.busy}
+              onReset={resetForm}
+              onRegenerate={() => estimate.calculate(true)}
+              onAdjust={estimate.adjustAssumptions}
+              onResetAssumptions={estimate.resetAssumptions}
+              onRefine={estimate.refine}
+              onBudgetChange={estimate.setBudget}
+              format={format}
+            />
+          )}
 
-            {/* Comparison Toggle */}
-            <div className="text-center mb-8">
-              <button
-                onClick={() => setShowComparison(!showComparison)}
-                className="px-6 py-3 rounded-lg text-white transition-all hover:opacity-90"
-                style={{ backgroundColor: '#E74C3C' }}
-              >
-                Compare with Legacy Pricing
-              </button>
-            </div>
+          {wizard.state.phase === 'error' && <ErrorBanner error={wizard.state.error} />}
 
-            {showComparison && (
-              <div className="bg-white rounded-xl shadow-lg p-8">
-                <h3 className="text-xl font-semibold mb-6" style={{ color: '#E74C3C' }}>Historic Pricing Comparison (100x Current)</h3>
-                <div className="grid md:grid-cols-2 gap-6 mb-6">
-                  <div className="text-center p-4 rounded-lg" style={{ backgroundColor: '#F8F9FB' }}>
-                    <h4 style={{ color: '#27AE60' }}>Light Usage Comparison</h4>
-                    <div className="mt-3">
-                      <div className="text-2xl font-bold" style={{ color: '#1B1F23' }}>{creditData.calculations.legacy_comparison_light.toLocaleString()} credits</div>
-                      <div className="text-sm mt-2" style={{ color: '#202124' }}>Historic pricing vs {creditData.calculations.monthly_total_light.toLocaleString()} current</div>
-                      <div className="text-xs mt-2" style={{ color: '#6C63FF' }}>~{Math.round((1 - (creditData.calculations.monthly_total_light / creditData.calculations.legacy_comparison_light)) * 100)}% savings</div>
-                    </div>
-                  </div>
-
-                  <div className="text-center p-4 rounded-lg" style={{ backgroundColor: '#F8F9FB' }}>
-                    <h4 style={{ color: '#F1C40F' }}>Heavy Usage Comparison</h4>
-                    <div className="mt-3">
-                      <div className="text-2xl font-bold" style={{ color: '#1B1F23' }}>{creditData.calculations.legacy_comparison_heavy.toLocaleString()} credits</div>
-                      <div className="text-sm mt-2" style={{ color: '#202124' }}>Historic pricing vs {creditData.calculations.monthly_total_heavy.toLocaleString()} current</div>
-                      <div className="text-xs mt-2" style={{ color: '#6C63FF' }}>~{Math.round((1 - (creditData.calculations.monthly_total_heavy / creditData.calculations.legacy_comparison_heavy)) * 100)}% savings</div>
-                    </div>
-                  </div>
-                </div>
-                <p className="text-sm text-center" style={{ color: '#202124' }}>Historic pricing model charged 100x current rates with less flexible scaling options.</p>
-              </div>
-            )}
-          </>
-        )}
-
-        {error && (
-          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4" style={{ color: '#E74C3C' }}>
-            <p className="font-semibold">Error</p>
-            <p>{error}</p>
-          </div>
-        )}
-      </main>
+          {showDevPanel && <DevPanel exchanges={agents.exchanges} onClear={agents.clearExchanges} />}
+        </main>
+      </div>
 
       {/* Sticky Footer */}
       <footer className="py-4 px-4 text-center text-sm" style={{ backgroundColor: '#1B1F23', color: '#F8F9FB' }}>
-        <p>Agent-action credits only. AI model tokens billed separately at usage rates.</p>
+        <p>{rateCards.active.disclaimer}</p>
+        <button onClick={() => setView('rates')} className="mt-1 mr-4 text-xs underline opacity-60 hover:opacity-100">
+          Rate card {rateCards.active.version}
+        </button>
+        <button onClick={() => setView('tiers')} className="mt-1 mr-4 text-xs underline opacity-60 hover:opacity-100">
+          Scenario tiers
+        </button>
+        <button onClick={() => setShowDevPanel(!showDevPanel)} className="mt-1 mr-4 text-xs underline opacity-60 hover:opacity-100">
+          {showDevPanel ? 'Hide' : 'Show'} developer panel
+        </button>
+        <button onClick={clearResponseCache} className="mt-1 text-xs underline opacity-60 hover:opacity-100">
+          Clear cached responses
+        </button>
       </footer>
     </div>
   )
@@ -0,0 +1,68 @@
+import { parametersFor, scenarioUnitCredits, type ScenarioName } from '../utils/assumptions'
+import type { Formatter } from '../utils/locale'
+import type { RateCard } from '../utils/rateCard'
+import type { LineCalculation, LineItem, ScenarioParameters } from '../types'
+
+interface AssumptionsEditorProps {
+  scenario: ScenarioName
+  items: LineItem[]
+  lines: LineCalculation[]
+  rateCard: RateCard
+  color: string
+  onChange: (lineId: string, scenario: ScenarioName, parameters: ScenarioParameters) => void
+  format: Formatter
+}
+
+const fieldClass = 'w-20 p-1 border border-gray-300 rounded text-right'
+
+const toCount = (value: string): number => {
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? number : 0
+}
+
+// One scenario's parameters for every line; edits reprice the estimate immediately
+export function AssumptionsEditor({ scenario, items, lines, rateCard, color, onChange, format }: AssumptionsEditorProps) {
+  const rows = items.flatMap((item) => {
+    const line = lines.find((l) => l.lineId === item.id)
+    return line ? [{ item, line, parameters: parametersFor(line.calculation, rateCard)[scenario] }] : []
+  })
+
+  const renderField = (label: string, value: number, step: number, onInput: (value: number) => void) => (
+    <label key={label} className="flex items-center justify-between gap-3 text-sm" style={{ color: '#202124' }}>
+      <span className="flex items-center">
+        <span className="w-2 h-2 mr-3 rounded-full" style={{ backgroundColor: color }}></span>
+        {label}
+      </span>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(e) => onInput(toCount(e.target.value))}
+        className={fieldClass}
+      />
+    </label>
+  )
+
+  return (
+    <div className="space-y-5">
+      {rows.map(({ item, line, parameters }) => {
+        const update = (changes: Partial<ScenarioParameters>) => onChange(item.id, scenario, { ...parameters, ...changes })
+        return (
+          <div key={item.id} className="space-y-2">
+            {rows.length > 1 && <p className="text-xs font-semibold" style={{ color: '#6B7280' }}>{item.unitOfWork}</p>}
+            {Object.entries(parameters.actions_per_unit).map(([action, count]) =>
+              renderField(`${action.replace(/_/g, ' ')} per unit`, count, 1, (value) =>
+                update({ actions_per_unit: { ...parameters.actions_per_unit, [action]: value } })))}
+            {renderField('Retries per unit', parameters.retries, 0.1, (retries) => update({ retries }))}
+            {renderField(scenario === 'heavy' ? 'Heavy-scenario multiplier' : 'Multiplier', parameters.multiplier, 0.1, (multiplier) => update({ multiplier }))}
+            <p className="text-xs text-right" style={{ color: '#6B7280' }}>
+              = {format.credits(scenarioUnitCredits(parameters, rateCard))} credits per unit
+              {line.userAdjusted && ' · adjusted'}
+            </p>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
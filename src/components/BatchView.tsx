@@ -0,0 +1,229 @@
+import { useState } from 'react'
+import { MAX_BATCH_ROWS, parseBatchFile, toBatchCsv, type BatchResult, type BatchRow, type BatchStatus } from '../utils/batch'
+import { downloadFile } from '../utils/exporters'
+import { sortWarnings } from '../utils/warnings'
+import type { FieldError } from '../utils/validation'
+import type { NewEstimate } from '../utils/estimateRepository'
+import type { Formatter } from '../utils/locale'
+
+interface BatchViewProps {
+  results: BatchResult[]
+  running: boolean
+  concurrency: number
+  onStart: (rows: BatchRow[]) => void
+  onRetry: (id?: string) => void
+  onCancel: () => void
+  onClear: () => void
+  onOpen: (estimate: NewEstimate) => void
+  onSaveAll: (estimates: NewEstimate[]) => Promise<void>
+  onClose: () => void
+  format: Formatter
+}
+
+const STATUS_STYLES: Record<BatchStatus, { label: string; color: string }> = {
+  queued: { label: 'Queued', color: '#6B7280' },
+  parsing: { label: 'Analyzing scenario', color: '#2980B9' },
+  pricing: { label: 'Calculating credits', color: '#6C63FF' },
+  done: { label: 'Done', color: '#27AE60' },
+  failed: { label: 'Failed', color: '#E74C3C' }
+}
+
+const SAMPLE = 'business_idea,unit_of_work,monthly_count\n"Support email assistant",one email reply,10000'
+
+export function BatchView({
+  results,
+  running,
+  concurrency,
+  onStart,
+  onRetry,
+  onCancel,
+  onClear,
+  onOpen,
+  onSaveAll,
+  onClose,
+  format
+}: BatchViewProps) {
+  const [fileErrors, setFileErrors] = useState<FieldError[] | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const upload = async (file: File) => {
+    const parsed = parseBatchFile(await file.text(), file.name)
+    if (!parsed.ok) {
+      setFileErrors(parsed.errors)
+      return
+    }
+    setFileErrors(null)
+    setSaved(false)
+    onStart(parsed.value)
+  }
+
+  const finished = results.filter((result) => result.status === 'done')
+  const failed = results.filter((result) => result.status === 'failed')
+  const pending = results.filter((result) => result.status === 'queued')
+
+  const saveAll = async () => {
+    await onSaveAll(finished.flatMap((result) => (result.estimate ? [result.estimate] : [])))
+    setSaved(true)
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-2xl font-semibold" style={{ color: '#1B1F23' }}>Batch Estimates</h2>
+        <button onClick={onClose} className="text-sm underline" style={{ color: '#6C63FF' }}>Back</button>
+      </div>
+      <p className="text-sm mb-6" style={{ color: '#202124' }}>
+        Upload a CSV or JSON file with one idea per row: business idea, unit of work and monthly count (up to {MAX_BATCH_ROWS} rows).
+        Each row runs through the ScenarioParser and CreditCalculator, {concurrency} at a time, using the agent's defaults instead of clarifying questions.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+        <label
+          className={`px-4 py-2 rounded-lg font-semibold text-white ${running ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:opacity-90'}`}
+          style={{ backgroundColor: '#6C63FF' }}
+        >
+          Upload file
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            disabled={running}
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) upload(file)
+            }}
+          />
+        </label>
+        <button
+          onClick={() => downloadFile('batch-template.csv', `${SAMPLE}\r\n`, 'text/csv')}
+          className="underline"
+          style={{ color: '#6C63FF' }}
+        >
+          Download template
+        </button>
+      </div>
+
+      {fileErrors && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4 text-sm" style={{ color: '#202124' }}>
+          <p className="font-semibold mb-1" style={{ color: '#E74C3C' }}>The file could not be used</p>
+          <ul className="list-disc pl-5">
+            {fileErrors.slice(0, 10).map((error, i) => (
+              <li key={i}><span className="font-mono">{error.path}</span> {error.message}</li>
+            ))}
+            {fileErrors.length > 10 && <li>…and {fileErrors.length - 10} more</li>}
+          </ul>
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+            <span style={{ color: '#202124' }}>
+              {finished.length} of {results.length} done{failed.length > 0 && ` · ${failed.length} failed`}
+            </span>
+            <span className="flex-1" />
+            {running ? (
+              <button onClick={onCancel} className="px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-100" style={{ color: '#202124' }}>
+                Cancel
+              </button>
+            ) : (
+              <>
+                {(failed.length > 0 || pending.length > 0) && (
+                  <button onClick={() => onRetry()} className="px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-100" style={{ color: '#202124' }}>
+                    {failed.length > 0 ? `Retry ${failed.length} failed` : 'Resume'}{failed.length > 0 && pending.length > 0 && ` and ${pending.length} queued`}
+                  </button>
+                )}
+                {finished.length > 0 && (
+                  <button
+                    onClick={saveAll}
+                    disabled={saved}
+                    className="px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+                    style={{ color: '#202124' }}
+                  >
+                    {saved ? 'Saved to history' : 'Save results to history'}
+                  </button>
+                )}
+                <button onClick={onClear} className="px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-100" style={{ color: '#202124' }}>
+                  Clear
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => downloadFile('batch-estimates.csv', toBatchCsv(results, format), 'text/csv')}
+              className="px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-100"
+              style={{ color: '#202124' }}
+            >
+              Download CSV
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left" style={{ color: '#202124' }}>
+              <thead>
+                <tr style={{ color: '#6B7280' }}>
+                  <th className="py-2 pr-3">#</th>
+                  <th className="py-2 pr-3">Idea</th>
+                  <th className="py-2 pr-3 text-right">Per month</th>
+                  <th className="py-2 pr-3">Status</th>
+                  <th className="py-2 pr-3 text-right">Light</th>
+                  <th className="py-2 pr-3 text-right">Heavy</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(({ row, status, estimate, error, attempts }) => {
+                  const calculations = estimate?.calculation.calculations
+                  const [warning] = estimate ? sortWarnings(estimate.calculation.warnings) : []
+                  return (
+                    <tr key={row.id} className="border-t border-gray-100 align-top">
+                      <td className="py-2 pr-3" style={{ color: '#6B7280' }}>{row.line}</td>
+                      <td className="py-2 pr-3 max-w-xs">
+                        <div className="truncate" title={row.businessIdea}>{row.businessIdea}</div>
+                        <div className="text-xs truncate" style={{ color: '#6B7280' }}>{row.unitOfWork}</div>
+                      </td>
+                      <td className="py-2 pr-3 text-right">{format.number(row.monthlyCount)}</td>
+                      <td className="py-2 pr-3">
+                        <span style={{ color: STATUS_STYLES[status].color }}>{STATUS_STYLES[status].label}</span>
+                        {attempts > 1 && <span className="text-xs" style={{ color: '#6B7280' }}> · attempt {attempts}</span>}
+                        {estimate?.lines.every((line) => line.cachedAt) && <span className="text-xs" style={{ color: '#6B7280' }}> · from cache</span>}
+                        {error && <div className="text-xs" style={{ color: '#E74C3C' }}>{error}</div>}
+                        {warning && warning.severity !== 'info' && (
+                          <div className="text-xs" style={{ color: '#BF9A29' }}>{warning.message}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-right">
+                        {calculations && (
+                          <>
+                            {format.credits(calculations.monthly_total_light, { compact: true })}
+                            <div className="text-xs" style={{ color: '#6B7280' }}>{format.money(calculations.dollar_cost_light)}</div>
+                          </>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-right">
+                        {calculations && (
+                          <>
+                            {format.credits(calculations.monthly_total_heavy, { compact: true })}
+                            <div className="text-xs" style={{ color: '#6B7280' }}>{format.money(calculations.dollar_cost_heavy)}</div>
+                          </>
+                        )}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {estimate && (
+                          <button onClick={() => onOpen(estimate)} className="text-xs underline" style={{ color: '#6C63FF' }}>Open</button>
+                        )}
+                        {status === 'failed' && !running && (
+                          <button onClick={() => onRetry(row.id)} className="text-xs underline" style={{ color: '#6C63FF' }}>Retry</button>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import { analyseBudget, budgetRates, type ScenarioBudget } from '../utils/budget'
+import { coerceNumber } from '../utils/validation'
+import type { Formatter } from '../utils/locale'
+import type { RateCard } from '../utils/rateCard'
+import type { Calculations, MonthlyBudget } from '../types'
+
+interface BudgetPanelProps {
+  calculations: Calculations
+  rateCard: RateCard
+  planId: string
+  expectedVolume: number
+  budget: MonthlyBudget | null
+  onChange: (budget: MonthlyBudget | null) => void
+  format: Formatter
+}
+
+const SERIES = [
+  { key: 'light', label: 'Light', color: '#27AE60' },
+  { key: 'heavy', label: 'Heavy', color: '#F1C40F' }
+] as const
+
+// Budget amounts are stored in USD but typed and shown in the display currency
+const toInputText = (budget: MonthlyBudget | null, format: Formatter): string => {
+  if (!budget) return ''
+  const amount = budget.unit === 'usd' ? budget.amount / format.toUsd(1) : budget.amount
+  return String(Math.round(amount * 100) / 100)
+}
+
+export function BudgetPanel({ calculations, rateCard, planId, expectedVolume, budget, onChange, format }: BudgetPanelProps) {
+  const [text, setText] = useState(() => toInputText(budget, format))
+  const [unit, setUnit] = useState<MonthlyBudget['unit']>(budget?.unit ?? 'usd')
+
+  const apply = (nextText: string, nextUnit: MonthlyBudget['unit']) => {
+    setText(nextText)
+    setUnit(nextUnit)
+    const amount = coerceNumber(nextText)
+    onChange(amount === null || amount <= 0 ? null : { amount: nextUnit === 'usd' ? format.toUsd(amount) : amount, unit: nextUnit })
+  }
+
+  const analysis = budget && analyseBudget(budget, budgetRates(calculations, rateCard, planId), expectedVolume || null)
+  const spend = (value: number) => (budget?.unit === 'credits' ? `${format.credits(value)} credits` : format.money(value))
+
+  const renderScenario = (label: string, color: string, scenario: ScenarioBudget) => (
+    <div key={label} className="p-4 rounded-lg border-l-4" style={{ borderColor: color, backgroundColor: '#F8F9FB' }}>
+      <p className="text-xs font-semibold mb-1" style={{ color: '#6B7280' }}>{label}</p>
+      <p className="text-2xl font-bold" style={{ color: '#1B1F23' }}>
+        {Number.isFinite(scenario.maxUnits) ? format.number(scenario.maxUnits) : 'Unlimited'}
+      </p>
+      <p className="text-sm" style={{ color: '#202124' }}>units per month at most</p>
+      {Number.isFinite(scenario.maxUnits) && (
+        <p className="text-xs mt-1" style={{ color: '#6B7280' }}>
+          {format.credits(scenario.creditsAtMax, { compact: true })} credits · {format.money(scenario.costAtMax)}
+        </p>
+      )}
+      {scenario.headroom !== null && (
+        <p className="text-sm mt-3" style={{ color: scenario.headroom >= 0 ? '#27AE60' : '#E74C3C' }}>
+          {scenario.headroom >= 0
+            ? `${spend(scenario.headroom)} headroom at ${format.number(expectedVolume)} units`
+            : `${spend(-scenario.headroom)} over budget at ${format.number(expectedVolume)} units`}
+          {scenario.headroomFraction !== null && ` (${format.percent(scenario.headroomFraction, { signed: true })})`}
+        </p>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <h3 className="text-xl font-semibold mb-2" style={{ color: '#1B1F23' }}>Monthly Budget</h3>
+      <p className="text-sm mb-6" style={{ color: '#202124' }}>
+        How much volume a budget covers at {format.credits(calculations.per_unit_credits)} credits per unit on the {rateCard.version} rate card.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mb-6 text-sm">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={text}
+          onChange={(e) => apply(e.target.value, unit)}
+          placeholder="Monthly budget"
+          className="flex-1 min-w-48 p-2 border border-gray-300 rounded-lg"
+        />
+        {(['usd', 'credits'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => apply(text, option)}
+            className="px-3 py-1 rounded-lg border"
+            style={{
+              borderColor: unit === option ? '#6C63FF' : '#D1D5DB',
+              color: unit === option ? '#6C63FF' : '#202124'
+            }}
+          >
+            {option === 'usd' ? format.settings.currency : 'Credits'}
+          </button>
+        ))}
+      </div>
+
+      {analysis ? (
+        <div className="grid md:grid-cols-2 gap-4">
+          {SERIES.map((series) => renderScenario(series.label, series.color, analysis[series.key]))}
+        </div>
+      ) : (
+        <p className="text-sm" style={{ color: '#6B7280' }}>Enter a budget to see the largest volume it covers.</p>
+      )}
+    </div>
+  )
+}
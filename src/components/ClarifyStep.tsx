@@ -0,0 +1,65 @@
+import type { Clarification } from '../utils/clarification'
+import type { ScenarioData } from '../types'
+
+interface ClarifyStepProps {
+  scenario: ScenarioData
+  questions: Clarification[]
+  round: number
+  maxRounds: number
+  onAnswer: (index: number, answer: string) => void
+  onSubmit: () => void
+  onAcceptDefaults: () => void
+}
+
+// One round of the ScenarioParser's questions, with the defaults it assumed meanwhile
+export function ClarifyStep({ scenario, questions, round, maxRounds, onAnswer, onSubmit, onAcceptDefaults }: ClarifyStepProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <h2 className="text-2xl font-semibold mb-2" style={{ color: '#1B1F23' }}>A Few Questions</h2>
+      <p className="mb-6" style={{ color: '#202124' }}>{scenario.scenario_summary}</p>
+      <div className="space-y-6">
+        {questions.map((clarification, i) => (
+          <label key={clarification.question} className="block">
+            <span className="block font-medium mb-2" style={{ color: '#1B1F23' }}>{clarification.question}</span>
+            <input
+              type="text"
+              value={clarification.answer ?? ''}
+              onChange={(e) => onAnswer(i, e.target.value)}
+              placeholder="Leave blank to keep the agent's default"
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-transparent"
+            />
+          </label>
+        ))}
+      </div>
+      {Object.keys(scenario.defaults_applied).length > 0 && (
+        <div className="mt-6 p-4 rounded-lg text-sm" style={{ backgroundColor: '#F8F9FB', color: '#202124' }}>
+          <p className="font-semibold mb-2">Defaults the agent applied</p>
+          <ul className="space-y-1">
+            {Object.entries(scenario.defaults_applied).map(([key, value]) => (
+              <li key={key}>
+                <span className="font-mono">{key}</span>: {typeof value === 'string' ? value : JSON.stringify(value)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="mt-6 flex gap-4">
+        <button
+          onClick={onSubmit}
+          className="px-8 py-3 rounded-lg font-semibold text-white transition-all hover:opacity-90 transform hover:scale-105"
+          style={{ backgroundColor: '#6C63FF' }}
+        >
+          Send Answers
+        </button>
+        <button
+          onClick={onAcceptDefaults}
+          className="px-6 py-3 rounded-lg border border-gray-300 transition-all hover:bg-gray-100"
+          style={{ color: '#202124' }}
+        >
+          Accept Defaults
+        </button>
+      </div>
+      <p className="mt-4 text-xs" style={{ color: '#202124' }}>Round {round + 1} of at most {maxRounds}</p>
+    </div>
+  )
+}
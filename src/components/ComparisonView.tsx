@@ -0,0 +1,173 @@
+import { compareEstimates, type ListDiff, type TierComparison } from '../utils/comparison'
+import { tierAccent } from '../utils/scenarios'
+import type { Formatter } from '../utils/locale'
+import type { SavedEstimate } from '../types'
+
+interface ComparisonViewProps {
+  estimates: SavedEstimate[]
+  format: Formatter
+  onClose: () => void
+}
+
+function formatDelta(delta: number | null, format: Formatter) {
+  if (delta === null || !Number.isFinite(delta)) return null
+  return (
+    <span className="block text-xs" style={{ color: delta > 0 ? '#E74C3C' : '#27AE60' }}>
+      {format.percent(delta, { signed: true })} vs first
+    </span>
+  )
+}
+
+function MonthlyCreditsChart({ estimates, tiers, format }: { estimates: SavedEstimate[]; tiers: TierComparison[]; format: Formatter }) {
+  const width = 600
+  const height = 220
+  const padding = 30
+  const max = Math.max(1, ...tiers.flatMap((tier) => tier.credits.map((credits) => credits ?? 0)))
+  const groupWidth = (width - padding * 2) / estimates.length
+  const barWidth = Math.min(40, (groupWidth * 2) / 3 / Math.max(1, tiers.length))
+  const scale = (value: number) => ((height - padding * 2) * value) / max
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Monthly credits by estimate">
+      <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke="#D1D5DB" />
+      {estimates.map((estimate, i) => {
+        const center = padding + groupWidth * i + groupWidth / 2
+        const start = center - (tiers.length * (barWidth + 4)) / 2
+        return (
+          <g key={estimate.id}>
+            {tiers.map((tier, j) => {
+              const credits = tier.credits[i]
+              if (credits === null) return null
+              return (
+                <rect
+                  key={tier.label}
+                  x={start + j * (barWidth + 4) + 2}
+                  y={height - padding - scale(credits)}
+                  width={barWidth}
+                  height={scale(credits)}
+                  fill={tierAccent(j).color}
+                >
+                  <title>{`${estimate.name}: ${format.credits(credits)} credits (${tier.label})`}</title>
+                </rect>
+              )
+            })}
+            <text x={center} y={height - padding + 16} textAnchor="middle" fontSize="11" fill="#202124">
+              {i + 1}
+            </text>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
+
+function ListDiffRows({ title, diff, count }: { title: string; diff: ListDiff; count: number }) {
+  return (
+    <>
+      <tr>
+        <th colSpan={count + 1} className="pt-6 pb-2 text-left font-semibold" style={{ color: '#1B1F23' }}>{title}</th>
+      </tr>
+      {diff.shared.length > 0 && (
+        <tr className="align-top">
+          <td className="py-2 pr-4 text-xs" style={{ color: '#6B7280' }}>Shared by all</td>
+          <td colSpan={count} className="py-2">
+            <ul className="list-disc list-inside">
+              {diff.shared.map((item) => <li key={item}>{item}</li>)}
+            </ul>
+          </td>
+        </tr>
+      )}
+      <tr className="align-top">
+        <td className="py-2 pr-4 text-xs" style={{ color: '#6B7280' }}>Differences</td>
+        {diff.distinct.map((items, i) => (
+          <td key={i} className="py-2 pr-4">
+            {items.length ? (
+              <ul className="list-disc list-inside">
+                {items.map((item) => <li key={item}>{item}</li>)}
+              </ul>
+            ) : (
+              <span style={{ color: '#6B7280' }}>None</span>
+            )}
+          </td>
+        ))}
+      </tr>
+    </>
+  )
+}
+
+export function ComparisonView({ estimates, format, onClose }: ComparisonViewProps) {
+  const comparison = compareEstimates(estimates)
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-semibold" style={{ color: '#1B1F23' }}>Compare Estimates</h2>
+        <button onClick={onClose} className="text-sm underline" style={{ color: '#6C63FF' }}>Close</button>
+      </div>
+
+      <MonthlyCreditsChart estimates={estimates} tiers={comparison.tiers} format={format} />
+      <div className="flex flex-wrap justify-center gap-6 text-xs mb-6" style={{ color: '#202124' }}>
+        {comparison.tiers.map((tier, i) => (
+          <span key={tier.label}><span className="inline-block w-3 h-3 mr-1" style={{ backgroundColor: tierAccent(i).color }}></span>{tier.label}</span>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left" style={{ color: '#202124' }}>
+          <thead>
+            <tr className="align-top">
+              <th className="py-2 pr-4"></th>
+              {estimates.map((estimate, i) => (
+                <th key={estimate.id} className="py-2 pr-4">
+                  <span className="text-xs" style={{ color: '#6B7280' }}>{i + 1}</span> {estimate.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="align-top">
+              <td className="py-2 pr-4 text-xs" style={{ color: '#6B7280' }}>Unit of work</td>
+              {estimates.map((e) => <td key={e.id} className="py-2 pr-4">{e.unitOfWork}</td>)}
+            </tr>
+            <tr>
+              <td className="py-2 pr-4 text-xs" style={{ color: '#6B7280' }}>Monthly volume</td>
+              {estimates.map((e) => <td key={e.id} className="py-2 pr-4">{format.number(e.monthlyCount)}</td>)}
+            </tr>
+            {comparison.metrics.map((metric) => (
+              <tr key={metric.field}>
+                <td className="py-2 pr-4 text-xs" style={{ color: '#6B7280' }}>{metric.label}</td>
+                {metric.values.map((value, i) => (
+                  <td key={estimates[i].id} className="py-2 pr-4 font-semibold">
+                    {metric.unit === 'usd' ? format.money(value) : format.credits(value, { compact: true })}
+                    {formatDelta(metric.deltas[i], format)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {comparison.tiers.flatMap((tier) => [
+              <tr key={`${tier.label}-credits`}>
+                <td className="py-2 pr-4 text-xs" style={{ color: '#6B7280' }}>Monthly credits ({tier.label})</td>
+                {tier.credits.map((credits, i) => (
+                  <td key={estimates[i].id} className="py-2 pr-4 font-semibold">
+                    {credits === null ? <span style={{ color: '#6B7280' }}>–</span> : format.credits(credits, { compact: true })}
+                    {formatDelta(tier.deltas[i], format)}
+                  </td>
+                ))}
+              </tr>,
+              <tr key={`${tier.label}-cost`}>
+                <td className="py-2 pr-4 text-xs" style={{ color: '#6B7280' }}>Monthly cost ({tier.label})</td>
+                {tier.costs.map((cost, i) => (
+                  <td key={estimates[i].id} className="py-2 pr-4 font-semibold">
+                    {cost === null ? <span style={{ color: '#6B7280' }}>–</span> : format.money(cost)}
+                  </td>
+                ))}
+              </tr>
+            ])}
+            <ListDiffRows title="Assumptions" diff={comparison.assumptions} count={estimates.length} />
+            <ListDiffRows title="Warnings" diff={comparison.warnings} count={estimates.length} />
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import { useState } from 'react'
+import type { AgentExchange } from '../utils/agentRequest'
+import type { CandidateTier, ParseTrace } from '../utils/jsonParser'
+
+interface DevPanelProps {
+  exchanges: AgentExchange[]
+  onClear: () => void
+}
+
+const TIER_LABELS: Record<CandidateTier, string> = {
+  1: '```json fence',
+  2: 'code fence',
+  3: 'inline code',
+  4: 'bare JSON',
+  5: 'whole response'
+}
+
+const OUTCOME_COLORS = { parsed: '#27AE60', failed: '#E74C3C', skipped: '#6B7280' }
+
+function RawText({ raw, trace }: { raw: string; trace?: ParseTrace }) {
+  const winner = trace?.winner != null ? trace.candidates[trace.winner] : null
+  return (
+    <pre className="p-3 rounded-lg text-xs overflow-auto max-h-96 whitespace-pre-wrap break-all" style={{ backgroundColor: '#1B1F23', color: '#F8F9FB' }}>
+      {winner ? (
+        <>
+          {raw.slice(0, winner.start)}
+          <mark style={{ backgroundColor: '#6C63FF55', color: 'inherit' }}>{raw.slice(winner.start, winner.end)}</mark>
+          {raw.slice(winner.end)}
+        </>
+      ) : raw}
+    </pre>
+  )
+}
+
+function TraceView({ trace, depth = 0 }: { trace: ParseTrace; depth?: number }) {
+  return (
+    <div className={depth ? 'mt-3 pl-3 border-l-2' : ''} style={{ borderColor: '#6C63FF' }}>
+      {depth > 0 && <p className="text-xs font-semibold mb-1">Unwrapped "response" string (level {depth})</p>}
+      <table className="w-full text-xs text-left">
+        <thead>
+          <tr style={{ color: '#6B7280' }}>
+            <th className="pr-2">#</th>
+            <th className="pr-2">Source</th>
+            <th className="pr-2">Span</th>
+            <th className="pr-2">Outcome</th>
+            <th>Repairs</th>
+          </tr>
+        </thead>
+        <tbody>
+          {trace.candidates.map((candidate, i) => (
+            <tr key={i} className="align-top" style={{ fontWeight: i === trace.winner ? 600 : 400 }}>
+              <td className="pr-2">{i + 1}</td>
+              <td className="pr-2">{TIER_LABELS[candidate.tier]}{candidate.complete ? '' : ' (truncated)'}</td>
+              <td className="pr-2 font-mono">{candidate.start}–{candidate.end}</td>
+              <td className="pr-2" style={{ color: OUTCOME_COLORS[candidate.outcome] }}>
+                {candidate.outcome}{candidate.strategy ? ` (${candidate.strategy})` : ''}
+                {candidate.error && <div style={{ color: '#6B7280' }}>{candidate.error}</div>}
+              </td>
+              <td className="font-mono">{candidate.repairs.join(', ') || '–'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {depth === 0 && <p className="text-xs mt-2">Unwrap depth: {trace.unwrapDepth}</p>}
+      {trace.inner.map((inner, i) => <TraceView key={i} trace={inner} depth={depth + i + 1} />)}
+    </div>
+  )
+}
+
+// Raw agent output next to the parser's account of what it did with it
+export function DevPanel({ exchanges, onClear }: DevPanelProps) {
+  const [selected, setSelected] = useState(0)
+  const exchange = exchanges[Math.min(selected, exchanges.length - 1)]
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 mb-8 text-left" style={{ color: '#202124' }}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold" style={{ color: '#1B1F23' }}>Developer Panel</h3>
+        <button onClick={onClear} className="text-sm underline" style={{ color: '#6C63FF' }}>Clear</button>
+      </div>
+
+      {!exchange ? (
+        <p className="text-sm">No agent responses yet.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {exchanges.map((item, i) => (
+              <button
+                key={`${item.receivedAt}-${i}`}
+                onClick={() => setSelected(i)}
+                className="px-2 py-1 rounded border text-xs"
+                style={{
+                  borderColor: item === exchange ? '#6C63FF' : '#D1D5DB',
+                  color: item.parsed.success ? '#202124' : '#E74C3C'
+                }}
+              >
+                {item.agent} #{item.attempt} · {new Date(item.receivedAt).toLocaleTimeString()}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs font-semibold mb-1">Raw response ({exchange.raw.length} chars)</p>
+              <RawText raw={exchange.raw} trace={exchange.parsed.trace} />
+            </div>
+            <div>
+              <p className="text-xs font-semibold mb-1">
+                Parse trace: {exchange.parsed.success ? (exchange.parsed.partial ? 'parsed (partial)' : 'parsed') : `failed – ${exchange.parsed.error}`}
+              </p>
+              {exchange.parsed.trace && <TraceView trace={exchange.parsed.trace} />}
+              {exchange.parsed.success && (
+                <pre className="mt-3 p-3 rounded-lg text-xs overflow-auto max-h-64" style={{ backgroundColor: '#F8F9FB' }}>
+                  {JSON.stringify(exchange.parsed.data, null, 2)}
+                </pre>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
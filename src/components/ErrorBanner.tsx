@@ -0,0 +1,23 @@
+import { ERROR_CATEGORY_LABELS, type AgentError } from '../utils/agentErrors'
+
+interface ErrorBannerProps {
+  error: AgentError
+}
+
+export function ErrorBanner({ error }: ErrorBannerProps) {
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4" style={{ color: '#E74C3C' }}>
+      <p className="font-semibold">{ERROR_CATEGORY_LABELS[error.category]}{error.status ? ` (${error.status})` : ''}</p>
+      <p>{error.message}</p>
+      {error.fieldErrors && (
+        <ul className="mt-2 text-sm list-disc list-inside">
+          {error.fieldErrors.map((fieldError) => (
+            <li key={fieldError.path}>
+              <span className="font-mono">{fieldError.path}</span> {fieldError.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react'
+import {
+  downloadFile,
+  exportFilename,
+  printReport,
+  toCsv,
+  toJsonDocument,
+  toMarkdown
+} from '../utils/exporters'
+import { shareUrl } from '../utils/router'
+import type { NewEstimate } from '../utils/estimateRepository'
+import type { Formatter } from '../utils/locale'
+
+interface ExportMenuProps {
+  estimate: NewEstimate
+  // From the rate card the estimate was priced under
+  disclaimer: string
+  format: Formatter
+}
+
+export function ExportMenu({ estimate, disclaimer, format }: ExportMenuProps) {
+  const [linkCopied, setLinkCopied] = useState(false)
+
+  const copyShareLink = async () => {
+    await navigator.clipboard.writeText(await shareUrl(estimate))
+    setLinkCopied(true)
+    setTimeout(() => setLinkCopied(false), 2000)
+  }
+
+  const exports = [
+    { label: 'PDF / Print', run: () => printReport(estimate, format, disclaimer) },
+    { label: 'CSV', run: () => downloadFile(exportFilename(estimate, 'csv'), toCsv(estimate, format), 'text/csv') },
+    { label: 'Markdown', run: () => downloadFile(exportFilename(estimate, 'md'), toMarkdown(estimate, format, disclaimer), 'text/markdown') },
+    { label: 'JSON', run: () => downloadFile(exportFilename(estimate, 'json'), toJsonDocument(estimate), 'application/json') },
+    { label: linkCopied ? 'Link copied' : 'Copy share link', run: copyShareLink }
+  ]
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3 mb-8 text-sm">
+      <span style={{ color: '#202124' }}>Export:</span>
+      {exports.map((item) => (
+        <button
+          key={item.label}
+          onClick={async () => {
+            try {
+              await item.run()
+            } catch (error) {
+              console.error('Export failed:', error)
+              window.alert(error instanceof Error ? error.message : 'Export failed')
+            }
+          }}
+          className="px-3 py-1 rounded-lg border border-gray-300 transition-all hover:bg-gray-100"
+          style={{ color: '#202124' }}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+interface ForceRefreshToggleProps {
+  checked: boolean
+  onChange: (checked: boolean) => void
+}
+
+export function ForceRefreshToggle({ checked, onChange }: ForceRefreshToggleProps) {
+  return (
+    <label className="flex items-center gap-2 mt-4 text-sm" style={{ color: '#6B7280' }}>
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+      Ignore cached responses and ask the agents again
+    </label>
+  )
+}
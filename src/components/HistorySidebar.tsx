@@ -0,0 +1,134 @@
+import { useState } from 'react'
+import { MAX_COMPARE, MIN_COMPARE } from '../utils/comparison'
+import { isUserAdjusted } from '../utils/assumptions'
+import type { Formatter } from '../utils/locale'
+import type { SavedEstimate } from '../types'
+
+interface HistorySidebarProps {
+  estimates: SavedEstimate[]
+  activeId: string | null
+  onOpen: (estimate: SavedEstimate) => void
+  onRename: (id: string, name: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+  compareIds: string[]
+  onToggleCompare: (id: string) => void
+  onCompare: () => void
+  onImport: (file: File) => void
+  format: Formatter
+}
+
+export function HistorySidebar({
+  estimates,
+  activeId,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  compareIds,
+  onToggleCompare,
+  onCompare,
+  onImport,
+  format
+}: HistorySidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+
+  const startRename = (estimate: SavedEstimate) => {
+    setEditingId(estimate.id)
+    setDraftName(estimate.name)
+  }
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) onRename(editingId, draftName.trim())
+    setEditingId(null)
+  }
+
+  return (
+    <aside className="bg-white rounded-xl shadow-lg p-4 w-full md:w-72 shrink-0 self-start">
+      <h2 className="text-lg font-semibold mb-4" style={{ color: '#1B1F23' }}>Saved Estimates</h2>
+      {estimates.length === 0 && (
+        <p className="text-sm" style={{ color: '#202124' }}>Finished estimates are saved here automatically.</p>
+      )}
+      <ul className="space-y-3">
+        {estimates.map((estimate) => (
+          <li
+            key={estimate.id}
+            className="p-3 rounded-lg border"
+            style={{ borderColor: estimate.id === activeId ? '#6C63FF' : '#E5E7EB' }}
+          >
+            {editingId === estimate.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename()
+                  if (e.key === 'Escape') setEditingId(null)
+                }}
+                className="w-full p-1 border border-gray-300 rounded text-sm"
+              />
+            ) : (
+              <button onClick={() => onOpen(estimate)} className="text-left w-full">
+                <div className="font-medium text-sm truncate" style={{ color: '#1B1F23' }}>{estimate.name}</div>
+                <div className="text-xs mt-1" style={{ color: '#202124' }}>
+                  {format.number(estimate.monthlyCount)} × {estimate.unitOfWork}
+                </div>
+                <div className="text-xs" style={{ color: '#6B7280' }}>
+                  {format.date(estimate.updatedAt)}
+                  {isUserAdjusted(estimate.lines) && <span style={{ color: '#6C63FF' }}> · adjusted</span>}
+                </div>
+              </button>
+            )}
+            <div className="flex gap-3 mt-2 text-xs" style={{ color: '#6C63FF' }}>
+              <label className="flex items-center gap-1" style={{ color: '#202124' }}>
+                <input
+                  type="checkbox"
+                  checked={compareIds.includes(estimate.id)}
+                  disabled={!compareIds.includes(estimate.id) && compareIds.length >= MAX_COMPARE}
+                  onChange={() => onToggleCompare(estimate.id)}
+                />
+                Compare
+              </label>
+              <button onClick={() => startRename(estimate)} className="underline">Rename</button>
+              <button onClick={() => onDuplicate(estimate.id)} className="underline">Duplicate</button>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete "${estimate.name}"?`)) onDelete(estimate.id)
+                }}
+                className="underline"
+                style={{ color: '#E74C3C' }}
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {estimates.length >= MIN_COMPARE && (
+        <button
+          onClick={onCompare}
+          disabled={compareIds.length < MIN_COMPARE}
+          className="mt-4 w-full px-4 py-2 rounded-lg text-white text-sm transition-all disabled:opacity-50 hover:opacity-90"
+          style={{ backgroundColor: '#2980B9' }}
+        >
+          Compare {compareIds.length} of {MAX_COMPARE}
+        </button>
+      )}
+      <label className="mt-4 block text-center text-sm underline cursor-pointer" style={{ color: '#6C63FF' }}>
+        Import JSON estimate
+        <input
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) onImport(file)
+            e.target.value = ''
+          }}
+        />
+      </label>
+    </aside>
+  )
+}
@@ -0,0 +1,41 @@
+import { ForceRefreshToggle } from './ForceRefreshToggle'
+
+interface IdeaStepProps {
+  idea: string
+  onChange: (idea: string) => void
+  onSubmit: () => void
+  onBatch: () => void
+  forceRefresh: boolean
+  onForceRefreshChange: (checked: boolean) => void
+}
+
+export function IdeaStep({ idea, onChange, onSubmit, onBatch, forceRefresh, onForceRefreshChange }: IdeaStepProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <h2 className="text-2xl font-semibold mb-6" style={{ color: '#1B1F23' }}>Share Your Business Idea</h2>
+      <p className="mb-6" style={{ color: '#202124' }}>Describe what you want to build with AI automation</p>
+      <textarea
+        value={idea}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="e.g., I want to build an AI system that automatically responds to customer support emails..."
+        className="w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-transparent"
+        rows={4}
+      />
+      <button
+        onClick={onSubmit}
+        disabled={!idea.trim()}
+        className="mt-6 px-8 py-3 rounded-lg font-semibold text-white transition-all disabled:opacity-50 hover:opacity-90 transform hover:scale-105"
+        style={{ backgroundColor: '#6C63FF' }}
+      >
+        Next
+      </button>
+      <ForceRefreshToggle checked={forceRefresh} onChange={onForceRefreshChange} />
+      <p className="mt-4 text-sm" style={{ color: '#202124' }}>
+        Sizing many ideas at once?{' '}
+        <button onClick={onBatch} className="underline" style={{ color: '#6C63FF' }}>
+          Upload a batch
+        </button>
+      </p>
+    </div>
+  )
+}
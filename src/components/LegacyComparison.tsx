@@ -0,0 +1,51 @@
+import { useState } from 'react'
+import { legacySavings } from '../utils/exporters'
+import { tierAccent } from '../utils/scenarios'
+import type { Formatter } from '../utils/locale'
+import type { TierResult } from '../types'
+
+interface LegacyComparisonProps {
+  tiers: TierResult[]
+  legacyMultiplier: number
+  format: Formatter
+}
+
+// What each scenario tier would have cost under the historic pricing model
+export function LegacyComparison({ tiers, legacyMultiplier, format }: LegacyComparisonProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <div className="text-center mb-8">
+        <button
+          onClick={() => setOpen(!open)}
+          className="px-6 py-3 rounded-lg text-white transition-all hover:opacity-90"
+          style={{ backgroundColor: '#E74C3C' }}
+        >
+          Compare with Legacy Pricing
+        </button>
+      </div>
+
+      {open && (
+        <div className="bg-white rounded-xl shadow-lg p-8">
+          <h3 className="text-xl font-semibold mb-6" style={{ color: '#E74C3C' }}>Historic Pricing Comparison ({legacyMultiplier}x Current)</h3>
+          <div className="grid md:grid-cols-2 gap-6 mb-6">
+            {tiers.map((tier, i) => (
+              <div key={tier.id} className="text-center p-4 rounded-lg" style={{ backgroundColor: '#F8F9FB' }}>
+                <h4 style={{ color: tierAccent(i).color }}>{tier.label} Comparison</h4>
+                <div className="mt-3">
+                  <div className="text-2xl font-bold" style={{ color: '#1B1F23' }}>{format.credits(tier.legacy_comparison, { compact: true })} credits</div>
+                  <div className="text-sm mt-2" style={{ color: '#202124' }}>Historic pricing vs {format.credits(tier.monthly_credits)} current</div>
+                  <div className="text-xs mt-2" style={{ color: '#6C63FF' }}>
+                    {tier.legacy_comparison > 0 && '~'}{legacySavings(tier.monthly_credits, tier.legacy_comparison, format)} savings
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-center" style={{ color: '#202124' }}>Historic pricing model charged {legacyMultiplier}x current rates with less flexible scaling options.</p>
+        </div>
+      )}
+    </>
+  )
+}
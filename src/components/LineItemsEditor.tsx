@@ -0,0 +1,82 @@
+import { newLineItem } from '../utils/lineItems'
+import type { LineItem } from '../types'
+
+interface LineItemsEditorProps {
+  items: LineItem[]
+  onChange: (items: LineItem[]) => void
+}
+
+const inputClass = 'w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-transparent'
+
+export function LineItemsEditor({ items, onChange }: LineItemsEditorProps) {
+  const update = (id: string, changes: Partial<LineItem>) =>
+    onChange(items.map((item) => (item.id === id ? { ...item, ...changes } : item)))
+
+  return (
+    <div>
+      <div className="hidden md:grid grid-cols-12 gap-3 mb-2 text-xs font-semibold" style={{ color: '#6B7280' }}>
+        <span className="col-span-4">Unit of work</span>
+        <span className="col-span-2">Per month</span>
+        <span className="col-span-2">Scenario</span>
+        <span className="col-span-3">Priced by</span>
+      </div>
+      <ul className="space-y-3">
+        {items.map((item, i) => (
+          <li key={item.id} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center">
+            <input
+              type="text"
+              value={item.unitOfWork}
+              onChange={(e) => update(item.id, { unitOfWork: e.target.value })}
+              placeholder={i === 0 ? 'e.g., one customer support email response' : 'e.g., one ticket summary'}
+              aria-label={`Unit of work for line ${i + 1}`}
+              className={`md:col-span-4 ${inputClass}`}
+            />
+            <input
+              type="number"
+              min={0}
+              value={item.monthlyCount || ''}
+              onChange={(e) => update(item.id, { monthlyCount: Number(e.target.value) })}
+              placeholder="e.g., 10,000"
+              aria-label={`Monthly volume for line ${i + 1}`}
+              className={`md:col-span-2 ${inputClass}`}
+            />
+            <select
+              value={item.scenarioOverride ?? ''}
+              onChange={(e) => update(item.id, { scenarioOverride: (e.target.value || null) as LineItem['scenarioOverride'] })}
+              aria-label={`Scenario for line ${i + 1}`}
+              className={`md:col-span-2 ${inputClass}`}
+            >
+              <option value="">Light &amp; heavy</option>
+              <option value="light">Always light</option>
+              <option value="heavy">Always heavy</option>
+            </select>
+            <select
+              value={item.pricedBy}
+              onChange={(e) => update(item.id, { pricedBy: e.target.value as LineItem['pricedBy'] })}
+              aria-label={`Pricing for line ${i + 1}`}
+              className={`md:col-span-3 ${inputClass}`}
+            >
+              <option value="agent">CreditCalculator agent</option>
+              <option value="local">Local engine</option>
+            </select>
+            <button
+              onClick={() => onChange(items.filter((other) => other.id !== item.id))}
+              disabled={items.length === 1}
+              className="md:col-span-1 text-sm underline disabled:opacity-30"
+              style={{ color: '#E74C3C' }}
+            >
+              Remove
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={() => onChange([...items, newLineItem()])}
+        className="mt-4 text-sm underline"
+        style={{ color: '#6C63FF' }}
+      >
+        + Add another workload
+      </button>
+    </div>
+  )
+}
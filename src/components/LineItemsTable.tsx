@@ -0,0 +1,65 @@
+import { allocate, lineCredits } from '../utils/lineItems'
+import type { Formatter } from '../utils/locale'
+import type { Calculations, LineCalculation, LineItem } from '../types'
+
+interface LineItemsTableProps {
+  items: LineItem[]
+  lines: LineCalculation[]
+  totals: Calculations
+  format: Formatter
+}
+
+const OVERRIDE_LABELS = { light: 'Always light', heavy: 'Always heavy' }
+
+// Per-line credits, with the combined cost split across lines by their share of credits
+export function LineItemsTable({ items, lines, totals, format }: LineItemsTableProps) {
+  const rows = items.flatMap((item) => {
+    const line = lines.find((l) => l.lineId === item.id)
+    return line ? [{ item, source: line.source, ...lineCredits(item, line.calculation.calculations) }] : []
+  })
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8 overflow-x-auto">
+      <h3 className="text-xl font-semibold mb-2" style={{ color: '#1B1F23' }}>Workload Breakdown</h3>
+      <p className="text-xs mb-4" style={{ color: '#6B7280' }}>Costs are priced on the combined volume and split by each line's share of credits.</p>
+      <table className="w-full text-sm text-left" style={{ color: '#202124' }}>
+        <thead>
+          <tr style={{ color: '#6B7280' }}>
+            <th className="py-2 pr-4">Unit of work</th>
+            <th className="py-2 pr-4 text-right">Per month</th>
+            <th className="py-2 pr-4 text-right">Light credits</th>
+            <th className="py-2 pr-4 text-right">Heavy credits</th>
+            <th className="py-2 pr-4 text-right">Light cost</th>
+            <th className="py-2 text-right">Heavy cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ item, source, light, heavy }) => (
+            <tr key={item.id} className="border-t border-gray-100 align-top">
+              <td className="py-2 pr-4">
+                {item.unitOfWork}
+                <span className="block text-xs" style={{ color: '#6B7280' }}>
+                  {source === 'local' ? 'Local engine' : 'CreditCalculator'}
+                  {item.scenarioOverride && ` · ${OVERRIDE_LABELS[item.scenarioOverride]}`}
+                </span>
+              </td>
+              <td className="py-2 pr-4 text-right">{format.number(item.monthlyCount)}</td>
+              <td className="py-2 pr-4 text-right">{format.credits(light, { compact: true })}</td>
+              <td className="py-2 pr-4 text-right">{format.credits(heavy, { compact: true })}</td>
+              <td className="py-2 pr-4 text-right">{format.money(allocate(light, totals.monthly_total_light, totals.dollar_cost_light))}</td>
+              <td className="py-2 text-right">{format.money(allocate(heavy, totals.monthly_total_heavy, totals.dollar_cost_heavy))}</td>
+            </tr>
+          ))}
+          <tr className="border-t-2 border-gray-300 font-semibold">
+            <td className="py-2 pr-4">Total</td>
+            <td className="py-2 pr-4 text-right">{format.number(rows.reduce((sum, row) => sum + row.item.monthlyCount, 0))}</td>
+            <td className="py-2 pr-4 text-right">{format.credits(totals.monthly_total_light, { compact: true })}</td>
+            <td className="py-2 pr-4 text-right">{format.credits(totals.monthly_total_heavy, { compact: true })}</td>
+            <td className="py-2 pr-4 text-right">{format.money(totals.dollar_cost_light)}</td>
+            <td className="py-2 text-right">{format.money(totals.dollar_cost_heavy)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { LocaleSettingsPanel } from './LocaleSettingsPanel'
+import { DEFAULT_LOCALE_SETTINGS } from '../utils/locale'
+
+describe('LocaleSettingsPanel', () => {
+  it('only passes on exchange rates above zero and restores the last one when the field is left', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(<LocaleSettingsPanel settings={DEFAULT_LOCALE_SETTINGS} onChange={onChange} />)
+    await user.click(screen.getByRole('button', { name: /en-US/ }))
+
+    const rate = screen.getByLabelText('EUR per USD')
+    await user.clear(rate)
+    await user.type(rate, '0')
+    expect(onChange).not.toHaveBeenCalled()
+
+    await user.type(rate, '.95')
+    expect(onChange).toHaveBeenLastCalledWith({ exchangeRates: { ...DEFAULT_LOCALE_SETTINGS.exchangeRates, EUR: 0.95 } })
+
+    await user.clear(rate)
+    await user.tab()
+    expect(rate).toHaveValue(0.92)
+    expect(onChange).toHaveBeenCalledTimes(2)
+  })
+})
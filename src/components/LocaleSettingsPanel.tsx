@@ -0,0 +1,134 @@
+import { useState } from 'react'
+import { isSupportedCurrency, isValidRate, SUPPORTED_LOCALES, type LocaleSettings } from '../utils/locale'
+
+interface LocaleSettingsPanelProps {
+  settings: LocaleSettings
+  onChange: (changes: Partial<LocaleSettings>) => void
+}
+
+interface RateInputProps {
+  code: string
+  rate: number
+  onChange: (rate: number) => void
+}
+
+// Keeps what is typed while it is not a usable rate (empty, zero or negative); only
+// positive rates reach the settings, and leaving the field restores the last one
+function RateInput({ code, rate, onChange }: RateInputProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  return (
+    <input
+      type="number"
+      step="any"
+      min={0}
+      value={draft ?? rate}
+      onChange={(e) => {
+        setDraft(e.target.value)
+        const next = Number(e.target.value)
+        if (isValidRate(next)) onChange(next)
+      }}
+      onBlur={() => setDraft(null)}
+      aria-label={`${code} per USD`}
+      className="w-full p-1 border border-gray-300 rounded"
+    />
+  )
+}
+
+export function LocaleSettingsPanel({ settings, onChange }: LocaleSettingsPanelProps) {
+  const [open, setOpen] = useState(false)
+  const [newCurrency, setNewCurrency] = useState('')
+  const currencies = Object.keys(settings.exchangeRates)
+
+  const addCurrency = () => {
+    const code = newCurrency.trim().toUpperCase()
+    if (!isSupportedCurrency(code) || code in settings.exchangeRates) return
+    onChange({ exchangeRates: { ...settings.exchangeRates, [code]: 1 } })
+    setNewCurrency('')
+  }
+
+  const removeCurrency = (code: string) => {
+    const exchangeRates = Object.fromEntries(Object.entries(settings.exchangeRates).filter(([key]) => key !== code))
+    onChange({ exchangeRates, currency: settings.currency === code ? 'USD' : settings.currency })
+  }
+
+  return (
+    <div className="relative inline-block text-left">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-3 py-1 rounded-lg border border-gray-500 text-xs text-gray-300 hover:text-white"
+      >
+        {settings.locale} · {settings.currency}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-lg p-4 z-10 text-sm" style={{ color: '#202124' }}>
+          <label className="block mb-3">
+            <span className="block mb-1 font-semibold">Number and date format</span>
+            <select
+              value={settings.locale}
+              onChange={(e) => onChange({ locale: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            >
+              {SUPPORTED_LOCALES.map((locale) => (
+                <option key={locale.value} value={locale.value}>{locale.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block mb-3">
+            <span className="block mb-1 font-semibold">Currency</span>
+            <select
+              value={settings.currency}
+              onChange={(e) => onChange({ currency: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-lg"
+            >
+              {currencies.map((code) => <option key={code} value={code}>{code}</option>)}
+            </select>
+          </label>
+
+          <p className="font-semibold mb-1">Exchange rates (per 1 USD)</p>
+          <table className="w-full mb-2">
+            <tbody>
+              {currencies.filter((code) => code !== 'USD').map((code) => (
+                <tr key={code}>
+                  <td className="py-1 pr-2 font-mono">{code}</td>
+                  <td className="py-1 pr-2">
+                    <RateInput
+                      code={code}
+                      rate={settings.exchangeRates[code]}
+                      onChange={(rate) => onChange({ exchangeRates: { ...settings.exchangeRates, [code]: rate } })}
+                    />
+                  </td>
+                  <td className="py-1 text-right">
+                    <button onClick={() => removeCurrency(code)} className="text-xs underline" style={{ color: '#E74C3C' }}>Remove</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="flex gap-2">
+            <input
+              value={newCurrency}
+              onChange={(e) => setNewCurrency(e.target.value)}
+              placeholder="Add currency, e.g. JPY"
+              maxLength={3}
+              className="flex-1 p-1 border border-gray-300 rounded"
+            />
+            <button
+              onClick={addCurrency}
+              disabled={!isSupportedCurrency(newCurrency.trim().toUpperCase())}
+              className="px-3 rounded text-white disabled:opacity-50"
+              style={{ backgroundColor: '#6C63FF' }}
+            >
+              Add
+            </button>
+          </div>
+          <p className="text-xs mt-3" style={{ color: '#6B7280' }}>
+            Prices are set in USD; these rates only affect how amounts are displayed and exported.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
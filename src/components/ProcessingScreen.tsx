@@ -0,0 +1,40 @@
+import { StreamingPreview } from './StreamingPreview'
+import type { AgentName } from '../utils/agentClient'
+import type { StreamProgress } from '../utils/agentRequest'
+import type { Formatter } from '../utils/locale'
+
+interface ProcessingScreenProps {
+  // Set while several lines are priced one after another
+  progress: { index: number; total: number; label: string } | null
+  retryNotice: string | null
+  activeAgent: AgentName | null
+  streamProgress: StreamProgress | null
+  onCancel: () => void
+  format: Formatter
+}
+
+// Full-screen wait while an agent call is in flight
+export function ProcessingScreen({ progress, retryNotice, activeAgent, streamProgress, onCancel, format }: ProcessingScreenProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4" style={{ backgroundColor: '#F8F9FB' }}>
+      <div className="text-center flex flex-col items-center w-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+        <p className="text-lg" style={{ color: '#202124' }}>Processing your request with Lyzr agents...</p>
+        {progress && progress.total > 1 && (
+          <p className="text-sm mt-2" style={{ color: '#6B7280' }}>
+            Pricing line {progress.index + 1} of {progress.total}: {progress.label}
+          </p>
+        )}
+        {retryNotice && <p className="text-sm mt-2" style={{ color: '#BF9A29' }}>{retryNotice}</p>}
+        {activeAgent && <StreamingPreview agent={activeAgent} progress={streamProgress} format={format} />}
+        <button
+          onClick={onCancel}
+          className="mt-6 px-6 py-2 rounded-lg border border-gray-300 transition-all hover:bg-gray-100"
+          style={{ color: '#202124' }}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
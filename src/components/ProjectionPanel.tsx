@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react'
+import { budgetRates } from '../utils/budget'
+import {
+  budgetCrossings,
+  MAX_HORIZON_MONTHS,
+  MIN_HORIZON_MONTHS,
+  parseBudgets,
+  projectUsage,
+  type BudgetCrossing,
+  type ProjectionPoint
+} from '../utils/projection'
+import type { Formatter } from '../utils/locale'
+import type { RateCard } from '../utils/rateCard'
+import type { Calculations } from '../types'
+
+interface ProjectionPanelProps {
+  calculations: Calculations
+  rateCard: RateCard
+  planId: string
+  monthlyCount: number
+  format: Formatter
+}
+
+type Metric = 'credits' | 'dollars'
+
+const SERIES = [
+  { key: 'light', label: 'Light', color: '#27AE60' },
+  { key: 'heavy', label: 'Heavy', color: '#F1C40F' }
+] as const
+
+const VOLUME_MULTIPLIERS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 20]
+
+const valueOf = (point: ProjectionPoint, series: 'light' | 'heavy', metric: Metric): number =>
+  metric === 'credits'
+    ? (series === 'light' ? point.lightCredits : point.heavyCredits)
+    : (series === 'light' ? point.lightCost : point.heavyCost)
+
+interface ProjectionChartProps {
+  points: ProjectionPoint[]
+  metric: Metric
+  crossings: BudgetCrossing[]
+  format: Formatter
+}
+
+function ProjectionChart({ points, metric, crossings, format }: ProjectionChartProps) {
+  const width = 640
+  const height = 260
+  const padding = 40
+  const visibleCrossings = metric === 'dollars' ? crossings : []
+  const max = Math.max(1, ...points.map((p) => valueOf(p, 'heavy', metric)), ...visibleCrossings.map((c) => c.budget))
+  const x = (month: number) => padding + ((width - padding * 2) * (month - 1)) / Math.max(points.length - 1, 1)
+  const y = (value: number) => height - padding - ((height - padding * 2) * value) / max
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={`Projected ${metric} per month`}>
+      <line x1={padding} y1={height - padding} x2={width - padding} y2={height - padding} stroke="#D1D5DB" />
+      <line x1={padding} y1={padding} x2={padding} y2={height - padding} stroke="#D1D5DB" />
+      <text x={padding - 4} y={padding} textAnchor="end" fontSize="10" fill="#6B7280">
+        {metric === 'dollars' ? format.money(max, { compact: true }) : format.credits(max, { compact: true })}
+      </text>
+      {points.filter((p) => p.month === 1 || p.month % 6 === 0).map((p) => (
+        <text key={p.month} x={x(p.month)} y={height - padding + 16} textAnchor="middle" fontSize="10" fill="#6B7280">
+          M{p.month}
+        </text>
+      ))}
+      {visibleCrossings.map(({ budget, lightMonth, heavyMonth }) => (
+        <g key={budget}>
+          <line x1={padding} y1={y(budget)} x2={width - padding} y2={y(budget)} stroke="#E74C3C" strokeDasharray="4 4" />
+          <text x={width - padding} y={y(budget) - 4} textAnchor="end" fontSize="10" fill="#E74C3C">
+            {format.money(budget, { compact: true })}
+          </text>
+          {[lightMonth, heavyMonth].map((month, i) => month && (
+            <line key={i} x1={x(month)} y1={padding} x2={x(month)} y2={height - padding} stroke={SERIES[i].color} strokeDasharray="2 3">
+              <title>{`${SERIES[i].label} passes ${format.money(budget)} in month ${month}`}</title>
+            </line>
+          ))}
+        </g>
+      ))}
+      {SERIES.map((series) => (
+        <polyline
+          key={series.key}
+          fill="none"
+          stroke={series.color}
+          strokeWidth="2"
+          points={points.map((p) => `${x(p.month)},${y(valueOf(p, series.key, metric))}`).join(' ')}
+        />
+      ))}
+    </svg>
+  )
+}
+
+export function ProjectionPanel({ calculations, rateCard, planId, monthlyCount, format }: ProjectionPanelProps) {
+  const [volumeMultiplierIndex, setVolumeMultiplierIndex] = useState(VOLUME_MULTIPLIERS.indexOf(1))
+  const [growthPercent, setGrowthPercent] = useState(5)
+  const [months, setMonths] = useState(24)
+  const [metric, setMetric] = useState<Metric>('dollars')
+  const [budgetText, setBudgetText] = useState('')
+
+  const volumeMultiplier = VOLUME_MULTIPLIERS[volumeMultiplierIndex]
+  const startVolume = monthlyCount * volumeMultiplier
+  // Budgets are typed in the display currency; the projection itself is in USD
+  const budgets = useMemo(() => parseBudgets(budgetText).map(format.toUsd), [budgetText, format])
+  const points = useMemo(() => projectUsage({
+    ...budgetRates(calculations, rateCard, planId),
+    startVolume,
+    monthlyGrowthRate: growthPercent / 100,
+    months
+  }), [calculations, rateCard, planId, startVolume, growthPercent, months])
+  const crossings = budgetCrossings(points, budgets)
+  const last = points[points.length - 1]
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <h3 className="text-xl font-semibold mb-6" style={{ color: '#1B1F23' }}>Growth Projection</h3>
+
+      <div className="grid md:grid-cols-3 gap-6 mb-6 text-sm" style={{ color: '#202124' }}>
+        <label className="block">
+          <span className="block mb-2">Starting volume: {format.number(Math.round(startVolume))} / month ({volumeMultiplier}x)</span>
+          <input
+            type="range"
+            min={0}
+            max={VOLUME_MULTIPLIERS.length - 1}
+            value={volumeMultiplierIndex}
+            onChange={(e) => setVolumeMultiplierIndex(Number(e.target.value))}
+            className="w-full"
+          />
+        </label>
+        <label className="block">
+          <span className="block mb-2">Month-over-month growth: {growthPercent}%</span>
+          <input
+            type="range"
+            min={-10}
+            max={50}
+            value={growthPercent}
+            onChange={(e) => setGrowthPercent(Number(e.target.value))}
+            className="w-full"
+          />
+        </label>
+        <label className="block">
+          <span className="block mb-2">Horizon: {months} months</span>
+          <input
+            type="range"
+            min={MIN_HORIZON_MONTHS}
+            max={MAX_HORIZON_MONTHS}
+            step={6}
+            value={months}
+            onChange={(e) => setMonths(Number(e.target.value))}
+            className="w-full"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+        {(['dollars', 'credits'] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setMetric(option)}
+            className="px-3 py-1 rounded-lg border"
+            style={{
+              borderColor: metric === option ? '#6C63FF' : '#D1D5DB',
+              color: metric === option ? '#6C63FF' : '#202124'
+            }}
+          >
+            {option === 'dollars' ? 'Dollars' : 'Credits'}
+          </button>
+        ))}
+        <input
+          type="text"
+          value={budgetText}
+          onChange={(e) => setBudgetText(e.target.value)}
+          placeholder={`Monthly budgets in ${format.settings.currency}, e.g. 500, 2k`}
+          className="flex-1 min-w-48 p-2 border border-gray-300 rounded-lg"
+        />
+      </div>
+
+      <ProjectionChart points={points} metric={metric} crossings={crossings} format={format} />
+      <div className="flex justify-center gap-6 text-xs mb-6" style={{ color: '#202124' }}>
+        {SERIES.map((series) => (
+          <span key={series.key}>
+            <span className="inline-block w-3 h-3 mr-1" style={{ backgroundColor: series.color }}></span>{series.label}
+          </span>
+        ))}
+      </div>
+
+      {last && (
+        <p className="text-sm mb-4" style={{ color: '#202124' }}>
+          By month {last.month}: {format.number(Math.round(last.volume))} units, {format.credits(Math.round(last.lightCredits), { compact: true })}–{format.credits(Math.round(last.heavyCredits), { compact: true })} credits
+          ({format.money(last.lightCost)}–{format.money(last.heavyCost)}) per month.
+        </p>
+      )}
+
+      {crossings.length > 0 && (
+        <table className="w-full text-sm text-left" style={{ color: '#202124' }}>
+          <thead>
+            <tr>
+              <th className="py-1">Budget</th>
+              <th className="py-1">Light crosses in</th>
+              <th className="py-1">Heavy crosses in</th>
+            </tr>
+          </thead>
+          <tbody>
+            {crossings.map((crossing) => (
+              <tr key={crossing.budget}>
+                <td className="py-1">{format.money(crossing.budget)}</td>
+                <td className="py-1">{crossing.lightMonth ? `Month ${crossing.lightMonth}` : 'Not within horizon'}</td>
+                <td className="py-1">{crossing.heavyMonth ? `Month ${crossing.heavyMonth}` : 'Not within horizon'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
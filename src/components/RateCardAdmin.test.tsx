@@ -0,0 +1,50 @@
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { RateCardAdmin } from './RateCardAdmin'
+import { DEFAULT_RATE_CARD } from '../utils/rateCard'
+
+const renderAdmin = () => {
+  const onPublish = vi.fn().mockResolvedValue(undefined)
+  render(
+    <RateCardAdmin cards={[DEFAULT_RATE_CARD]} active={DEFAULT_RATE_CARD} onPublish={onPublish} onActivate={vi.fn().mockResolvedValue(undefined)} onClose={vi.fn()} />
+  )
+  return onPublish
+}
+
+describe('RateCardAdmin', () => {
+  it('renames an action once the field is left', async () => {
+    const user = userEvent.setup()
+    const onPublish = renderAdmin()
+    const [first] = Object.keys(DEFAULT_RATE_CARD.actionCosts)
+
+    const name = screen.getByLabelText(`Action ${first}`)
+    await user.clear(name)
+    await user.type(name, 'renamed_action')
+    expect(screen.getByLabelText(`Action ${first}`)).toHaveValue('renamed_action')
+
+    await user.tab()
+    expect(screen.getByLabelText('Action renamed_action')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: /Publish version/ }))
+    const published = onPublish.mock.calls[0][0]
+    expect(published.actionCosts).not.toHaveProperty(first)
+    expect(published.actionCosts.renamed_action).toBe(DEFAULT_RATE_CARD.actionCosts[first])
+    expect(published.actionMix.renamed_action).toBe(DEFAULT_RATE_CARD.actionMix[first])
+  })
+
+  it('keeps both actions when one is renamed to a name already in use', async () => {
+    const user = userEvent.setup()
+    renderAdmin()
+    const [first, second] = Object.keys(DEFAULT_RATE_CARD.actionCosts)
+
+    const name = screen.getByLabelText(`Action ${first}`)
+    await user.clear(name)
+    await user.type(name, second)
+    await user.tab()
+
+    expect(screen.getByLabelText(`Action ${first}`)).toHaveValue(first)
+    expect(screen.getByLabelText(`Action ${second}`)).toHaveValue(second)
+    expect(screen.getByText(/already in use/)).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,347 @@
+import { useState, type ReactNode } from 'react'
+import { downloadFile } from '../utils/exporters'
+import { parseRateCardJson, toRateCardJson, type RateCard } from '../utils/rateCard'
+import { validateRateCard, type FieldError } from '../utils/validation'
+
+interface RateCardAdminProps {
+  cards: RateCard[]
+  active: RateCard
+  onPublish: (card: RateCard) => Promise<unknown>
+  onActivate: (version: string) => Promise<unknown>
+  onClose: () => void
+}
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-lg'
+
+// Suggests the next version so an edited card never reuses a published one
+const nextVersion = (version: string): string => {
+  const match = version.match(/^(.*?)(\d+)$/)
+  return match ? `${match[1]}${Number(match[2]) + 1}` : `${version}.1`
+}
+
+function NumberInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+  return (
+    <input
+      type="number"
+      step="any"
+      value={Number.isFinite(value) ? value : ''}
+      onChange={(e) => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+      className={inputClass}
+    />
+  )
+}
+
+// Holds the typed name locally and only renames the action when the field is left, so a half-typed
+// name never merges into an existing action
+function ActionNameInput({ name, onRename }: { name: string; onRename: (name: string) => void }) {
+  const [draft, setDraft] = useState<string | null>(null)
+
+  return (
+    <input
+      value={draft ?? name}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== null && draft.trim() !== name) onRename(draft.trim())
+        setDraft(null)
+      }}
+      aria-label={`Action ${name}`}
+      className={inputClass}
+    />
+  )
+}
+
+function Section({ title, children, onAdd }: { title: string; children: ReactNode; onAdd?: () => void }) {
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold" style={{ color: '#1B1F23' }}>{title}</h3>
+        {onAdd && <button onClick={onAdd} className="text-sm underline" style={{ color: '#6C63FF' }}>Add row</button>}
+      </div>
+      {children}
+    </div>
+  )
+}
+
+export function RateCardAdmin({ cards, active, onPublish, onActivate, onClose }: RateCardAdminProps) {
+  const [draft, setDraft] = useState<RateCard>(() => ({ ...active, version: nextVersion(active.version) }))
+  const [errors, setErrors] = useState<FieldError[]>([])
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const update = (changes: Partial<RateCard>) => {
+    setDraft((card) => ({ ...card, ...changes }))
+    setNotice(null)
+  }
+
+  const actions = Object.keys(draft.actionCosts)
+
+  const renameAction = (from: string, to: string) => {
+    if (to === '' || to in draft.actionCosts) {
+      setErrors([{ path: `actionCosts.${from}`, message: to === '' ? 'needs a name' : `cannot be renamed to "${to}", which is already in use` }])
+      return
+    }
+    setErrors([])
+    const rename = (table: Record<string, number>) =>
+      Object.fromEntries(Object.entries(table).map(([key, value]) => [key === from ? to : key, value]))
+    update({ actionCosts: rename(draft.actionCosts), actionMix: rename(draft.actionMix) })
+  }
+
+  const removeAction = (action: string) => {
+    const without = (table: Record<string, number>) => Object.fromEntries(Object.entries(table).filter(([key]) => key !== action))
+    update({ actionCosts: without(draft.actionCosts), actionMix: without(draft.actionMix) })
+  }
+
+  const edit = (card: RateCard) => {
+    setDraft({ ...card, version: nextVersion(card.version), effectiveFrom: new Date().toISOString().slice(0, 10) })
+    setErrors([])
+    setNotice(`Editing a copy of ${card.version}`)
+  }
+
+  const publish = async () => {
+    const validated = validateRateCard(draft)
+    if (!validated.ok) {
+      setErrors(validated.errors)
+      return
+    }
+    setErrors([])
+    try {
+      await onPublish(validated.value)
+      await onActivate(validated.value.version)
+      setNotice(`Published and activated version ${validated.value.version}`)
+    } catch (error) {
+      setErrors([{ path: 'version', message: error instanceof Error ? error.message : String(error) }])
+    }
+  }
+
+  const importCard = async (file: File) => {
+    const imported = parseRateCardJson(await file.text())
+    if (!imported.ok) {
+      setErrors(imported.errors)
+      return
+    }
+    setDraft(imported.card)
+    setErrors([])
+    setNotice(`Imported version ${imported.card.version}; publish it to use it`)
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8" style={{ color: '#202124' }}>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-semibold" style={{ color: '#1B1F23' }}>Rate Card</h2>
+        <button onClick={onClose} className="text-sm underline" style={{ color: '#6C63FF' }}>Close</button>
+      </div>
+
+      <Section title="Versions">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr style={{ color: '#6B7280' }}>
+              <th className="py-1">Version</th>
+              <th className="py-1">Effective from</th>
+              <th className="py-1">Plans</th>
+              <th className="py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {cards.map((card) => (
+              <tr key={card.version}>
+                <td className="py-1 font-semibold">{card.version}</td>
+                <td className="py-1">{card.effectiveFrom}</td>
+                <td className="py-1">{card.plans.map((plan) => plan.name).join(', ')}</td>
+                <td className="py-1 text-right space-x-3">
+                  {card.version === active.version
+                    ? <span style={{ color: '#27AE60' }}>Active</span>
+                    : <button onClick={() => onActivate(card.version)} className="underline" style={{ color: '#6C63FF' }}>Activate</button>}
+                  <button onClick={() => edit(card)} className="underline" style={{ color: '#6C63FF' }}>Edit copy</button>
+                  <button
+                    onClick={() => downloadFile(`rate-card-${card.version}.json`, toRateCardJson(card), 'application/json')}
+                    className="underline"
+                    style={{ color: '#6C63FF' }}
+                  >
+                    Export
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+
+      <Section title="General">
+        <div className="grid md:grid-cols-2 gap-4 text-sm">
+          <label className="block">
+            <span className="block mb-1">Version</span>
+            <input value={draft.version} onChange={(e) => update({ version: e.target.value })} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="block mb-1">Effective from</span>
+            <input type="date" value={draft.effectiveFrom} onChange={(e) => update({ effectiveFrom: e.target.value })} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className="block mb-1">Heavy usage multiplier</span>
+            <NumberInput value={draft.heavyMultiplier} onChange={(heavyMultiplier) => update({ heavyMultiplier })} />
+          </label>
+          <label className="block">
+            <span className="block mb-1">Legacy pricing multiplier</span>
+            <NumberInput value={draft.legacyMultiplier} onChange={(legacyMultiplier) => update({ legacyMultiplier })} />
+          </label>
+          <label className="block md:col-span-2">
+            <span className="block mb-1">Disclaimer</span>
+            <input value={draft.disclaimer} onChange={(e) => update({ disclaimer: e.target.value })} className={inputClass} />
+          </label>
+        </div>
+      </Section>
+
+      <Section title="Action costs" onAdd={() => update({ actionCosts: { ...draft.actionCosts, [`action_${actions.length + 1}`]: 0 } })}>
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr style={{ color: '#6B7280' }}>
+              <th className="py-1 pr-2">Action</th>
+              <th className="py-1 pr-2">Credits each</th>
+              <th className="py-1 pr-2">Per unit of work</th>
+              <th className="py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {actions.map((action, i) => (
+              <tr key={i}>
+                <td className="py-1 pr-2">
+                  <ActionNameInput name={action} onRename={(name) => renameAction(action, name)} />
+                </td>
+                <td className="py-1 pr-2">
+                  <NumberInput value={draft.actionCosts[action]} onChange={(cost) => update({ actionCosts: { ...draft.actionCosts, [action]: cost } })} />
+                </td>
+                <td className="py-1 pr-2">
+                  <NumberInput value={draft.actionMix[action] ?? 0} onChange={(count) => update({ actionMix: { ...draft.actionMix, [action]: count } })} />
+                </td>
+                <td className="py-1 text-right">
+                  <button onClick={() => removeAction(action)} className="underline" style={{ color: '#E74C3C' }}>Remove</button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Section>
+
+      <Section title="Plans" onAdd={() => update({ plans: [...draft.plans, { id: `plan-${draft.plans.length + 1}`, name: 'New plan', creditPriceUsd: 0.01 }] })}>
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr style={{ color: '#6B7280' }}>
+              <th className="py-1 pr-2">Default</th>
+              <th className="py-1 pr-2">ID</th>
+              <th className="py-1 pr-2">Name</th>
+              <th className="py-1 pr-2">USD per credit</th>
+              <th className="py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {draft.plans.map((plan, i) => {
+              const setPlan = (changes: Partial<typeof plan>) =>
+                update({
+                  plans: draft.plans.map((p, j) => (j === i ? { ...p, ...changes } : p)),
+                  defaultPlanId: changes.id !== undefined && draft.defaultPlanId === plan.id ? changes.id : draft.defaultPlanId
+                })
+              return (
+                <tr key={i}>
+                  <td className="py-1 pr-2">
+                    <input type="radio" checked={draft.defaultPlanId === plan.id} onChange={() => update({ defaultPlanId: plan.id })} />
+                  </td>
+                  <td className="py-1 pr-2"><input value={plan.id} onChange={(e) => setPlan({ id: e.target.value })} className={inputClass} /></td>
+                  <td className="py-1 pr-2"><input value={plan.name} onChange={(e) => setPlan({ name: e.target.value })} className={inputClass} /></td>
+                  <td className="py-1 pr-2"><NumberInput value={plan.creditPriceUsd} onChange={(creditPriceUsd) => setPlan({ creditPriceUsd })} /></td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => update({ plans: draft.plans.filter((_, j) => j !== i) })}
+                      disabled={draft.plans.length === 1}
+                      className="underline disabled:opacity-50"
+                      style={{ color: '#E74C3C' }}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </Section>
+
+      <Section
+        title="Volume discounts"
+        onAdd={() => update({ volumeDiscounts: [...draft.volumeDiscounts, { minMonthlyCredits: 0, discountPercent: 0 }] })}
+      >
+        {draft.volumeDiscounts.length === 0 ? (
+          <p className="text-sm" style={{ color: '#6B7280' }}>No volume discounts.</p>
+        ) : (
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr style={{ color: '#6B7280' }}>
+                <th className="py-1 pr-2">From monthly credits</th>
+                <th className="py-1 pr-2">Discount %</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.volumeDiscounts.map((tier, i) => {
+                const setTier = (changes: Partial<typeof tier>) =>
+                  update({ volumeDiscounts: draft.volumeDiscounts.map((t, j) => (j === i ? { ...t, ...changes } : t)) })
+                return (
+                  <tr key={i}>
+                    <td className="py-1 pr-2"><NumberInput value={tier.minMonthlyCredits} onChange={(minMonthlyCredits) => setTier({ minMonthlyCredits })} /></td>
+                    <td className="py-1 pr-2"><NumberInput value={tier.discountPercent} onChange={(discountPercent) => setTier({ discountPercent })} /></td>
+                    <td className="py-1 text-right">
+                      <button
+                        onClick={() => update({ volumeDiscounts: draft.volumeDiscounts.filter((_, j) => j !== i) })}
+                        className="underline"
+                        style={{ color: '#E74C3C' }}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </Section>
+
+      {errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-sm">
+          <p className="font-semibold mb-2" style={{ color: '#E74C3C' }}>The rate card has problems</p>
+          <ul className="list-disc list-inside">
+            {errors.map((e, i) => <li key={i}><code>{e.path || 'rate card'}</code> {e.message}</li>)}
+          </ul>
+        </div>
+      )}
+      {notice && <p className="text-sm mb-4" style={{ color: '#27AE60' }}>{notice}</p>}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={publish}
+          className="px-6 py-2 rounded-lg font-semibold text-white transition-all hover:opacity-90"
+          style={{ backgroundColor: '#6C63FF' }}
+        >
+          Publish version {draft.version}
+        </button>
+        <button
+          onClick={() => downloadFile(`rate-card-${draft.version}.json`, toRateCardJson(draft), 'application/json')}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-sm transition-all hover:bg-gray-100"
+        >
+          Export draft JSON
+        </button>
+        <label className="px-4 py-2 rounded-lg border border-gray-300 text-sm cursor-pointer transition-all hover:bg-gray-100">
+          Import JSON
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) importCard(file)
+              e.target.value = ''
+            }}
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
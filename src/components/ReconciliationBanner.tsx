@@ -0,0 +1,57 @@
+import type { LineReconciliation } from '../utils/lineItems'
+import type { Formatter } from '../utils/locale'
+
+interface ReconciliationBannerProps {
+  reconciliations: LineReconciliation[]
+  format: Formatter
+}
+
+// Whether the agent's figures follow from its own inputs and the rate card, line by line
+export function ReconciliationBanner({ reconciliations, format }: ReconciliationBannerProps) {
+  if (!reconciliations.length) return null
+
+  if (reconciliations.every((line) => line.reconciliation.agrees)) {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-8 text-sm" style={{ color: '#27AE60' }}>
+        Agent figures add up on the rate card (within {format.percent(reconciliations[0].reconciliation.tolerance)}).
+      </div>
+    )
+  }
+
+  const consistent = reconciliations.every((line) => line.reconciliation.consistent)
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-8" style={{ color: '#202124' }}>
+      <p className="font-semibold mb-2" style={{ color: '#BF9A29' }}>
+        {consistent ? 'Agent credits differ from the expected assumptions' : 'Agent figures do not add up'}
+      </p>
+      <p className="text-sm mb-3">
+        {consistent
+          ? "Expected figures come from the agent's parameters, or the rate card's standard action mix when it sent none. Check the assumptions before quoting these numbers."
+          : 'Do not quote these numbers until the differences below are understood.'}
+      </p>
+      <table className="w-full text-sm text-left">
+        <thead>
+          <tr>
+            {reconciliations.length > 1 && <th className="py-1">Line</th>}
+            <th className="py-1">Field</th>
+            <th className="py-1">Agent</th>
+            <th className="py-1">Expected</th>
+            <th className="py-1">Difference</th>
+          </tr>
+        </thead>
+        <tbody>
+          {reconciliations.flatMap(({ lineId, unitOfWork, reconciliation }) => reconciliation.discrepancies.map((d) => (
+            <tr key={`${lineId}-${d.field}`}>
+              {reconciliations.length > 1 && <td className="py-1">{unitOfWork}</td>}
+              <td className="py-1 font-mono">{d.field}</td>
+              <td className="py-1">{Number.isFinite(d.agent) ? format.number(d.agent) : 'n/a'}</td>
+              <td className="py-1">{format.number(d.expected)}</td>
+              <td className="py-1">{Number.isFinite(d.relativeDiff) ? format.percent(d.relativeDiff) : 'n/a'}</td>
+            </tr>
+          )))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import type { Conversation } from '../utils/sessions'
+import type { Formatter } from '../utils/locale'
+import type { LineItem } from '../types'
+
+interface RefineChatProps {
+  conversation: Conversation | null
+  items: LineItem[]
+  busy: boolean
+  onSend: (request: string, lineId: string) => void
+  format: Formatter
+}
+
+const AGENT_LABELS = { scenarioParser: 'ScenarioParser', creditCalculator: 'CreditCalculator' }
+
+// Follow-up questions in the same CreditCalculator session, plus the full local transcript
+export function RefineChat({ conversation, items, busy, onSend, format }: RefineChatProps) {
+  const [draft, setDraft] = useState('')
+  const [lineId, setLineId] = useState(items[0]?.id ?? '')
+  const [showTranscript, setShowTranscript] = useState(false)
+  const target = items.some((item) => item.id === lineId) ? lineId : items[0]?.id ?? ''
+
+  const send = () => {
+    if (!draft.trim() || !target) return
+    onSend(draft.trim(), target)
+    setDraft('')
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <h3 className="text-xl font-semibold mb-2" style={{ color: '#1B1F23' }}>Refine This Estimate</h3>
+      <p className="text-sm mb-4" style={{ color: '#202124' }}>
+        Ask the CreditCalculator to change something, e.g. "assume two knowledge base lookups per email". It answers in the same session, so it remembers the estimate.
+      </p>
+
+      {conversation && conversation.refinements.length > 0 && (
+        <ul className="space-y-3 mb-4 text-sm">
+          {conversation.refinements.map((refinement, i) => (
+            <li key={i} className="space-y-1">
+              <p className="p-3 rounded-lg ml-12" style={{ backgroundColor: '#EEF0FF', color: '#202124' }}>{refinement.request}</p>
+              <p
+                className="p-3 rounded-lg mr-12"
+                style={{ backgroundColor: refinement.ok ? '#F8F9FB' : '#FDEDEC', color: refinement.ok ? '#202124' : '#C0392B' }}
+              >
+                {refinement.ok ? refinement.reply : `Could not refine: ${refinement.reply}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-3">
+        {items.length > 1 && (
+          <select
+            value={target}
+            onChange={(e) => setLineId(e.target.value)}
+            aria-label="Workload to refine"
+            className="p-3 border border-gray-300 rounded-lg text-sm"
+          >
+            {items.map((item) => <option key={item.id} value={item.id}>{item.unitOfWork}</option>)}
+          </select>
+        )}
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') send()
+          }}
+          placeholder="What should change?"
+          disabled={busy}
+          className="flex-1 p-3 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-600 focus:border-transparent"
+        />
+        <button
+          onClick={send}
+          disabled={busy || !draft.trim()}
+          className="px-6 py-3 rounded-lg font-semibold text-white transition-all disabled:opacity-50 hover:opacity-90"
+          style={{ backgroundColor: '#6C63FF' }}
+        >
+          {busy ? 'Refining…' : 'Send'}
+        </button>
+      </div>
+
+      {conversation && conversation.transcript.length > 0 && (
+        <div className="mt-4">
+          <button onClick={() => setShowTranscript(!showTranscript)} className="text-sm underline" style={{ color: '#6C63FF' }}>
+            {showTranscript ? 'Hide' : 'Show'} transcript ({conversation.transcript.length} messages)
+          </button>
+          {showTranscript && (
+            <ol className="mt-3 space-y-2 max-h-96 overflow-auto text-xs">
+              {conversation.transcript.map((entry, i) => (
+                <li key={i} className="p-2 rounded" style={{ backgroundColor: entry.role === 'user' ? '#EEF0FF' : '#F8F9FB', color: '#202124' }}>
+                  <p className="font-semibold mb-1" style={{ color: '#6B7280' }}>
+                    {entry.role === 'user' ? 'You' : AGENT_LABELS[entry.agent]} → {entry.role === 'user' ? AGENT_LABELS[entry.agent] : 'you'}
+                    {' · '}{format.date(entry.at)} · <span className="font-mono">{entry.sessionId}</span>
+                  </p>
+                  <pre className="whitespace-pre-wrap break-words">{entry.text.trim()}</pre>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
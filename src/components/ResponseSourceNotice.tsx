@@ -0,0 +1,51 @@
+import type { Formatter } from '../utils/locale'
+import type { LineCalculation } from '../types'
+
+interface ResponseSourceNoticeProps {
+  // When the ScenarioParser result on screen was generated, if it came from the cache
+  scenarioCachedAt: string | null
+  lines: LineCalculation[]
+  busy: boolean
+  onRegenerate: () => void
+  format: Formatter
+}
+
+// Says whether the agent figures were generated for this estimate or replayed from the response cache
+export function ResponseSourceNotice({ scenarioCachedAt, lines, busy, onRegenerate, format }: ResponseSourceNoticeProps) {
+  const agentLines = lines.filter((line) => line.source === 'agent')
+  const cachedLines = agentLines.filter((line) => line.cachedAt)
+  if (!agentLines.length) return null
+
+  const oldest = cachedLines.map((line) => line.cachedAt as string).sort()[0]
+  const cached = cachedLines.length > 0 || scenarioCachedAt !== null
+
+  return (
+    <div
+      className="flex flex-col md:flex-row md:items-center justify-between gap-3 rounded-lg p-4 mb-8 text-sm border"
+      style={{ backgroundColor: cached ? '#EEF0FF' : '#F8F9FB', borderColor: cached ? '#C7C4FF' : '#E5E7EB', color: '#202124' }}
+    >
+      <p>
+        {cachedLines.length > 0 ? (
+          <>
+            <span className="font-semibold">From cache.</span>{' '}
+            {cachedLines.length === agentLines.length ? 'The CreditCalculator figures' : `${cachedLines.length} of ${agentLines.length} workloads`}
+            {' '}were generated {format.date(oldest)} and reused for an identical request.
+          </>
+        ) : (
+          <>
+            <span className="font-semibold">Generated</span> by the CreditCalculator for this estimate.
+            {scenarioCachedAt && ` The scenario was reused from ${format.date(scenarioCachedAt)}.`}
+          </>
+        )}
+      </p>
+      <button
+        onClick={onRegenerate}
+        disabled={busy}
+        className="px-4 py-2 rounded-lg font-semibold text-white whitespace-nowrap transition-all disabled:opacity-50 hover:opacity-90"
+        style={{ backgroundColor: '#6C63FF' }}
+      >
+        Regenerate
+      </button>
+    </div>
+  )
+}
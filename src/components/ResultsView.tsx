@@ -0,0 +1,200 @@
+import { findPlan, type RateCard } from '../utils/rateCard'
+import { totalVolume, type LineReconciliation } from '../utils/lineItems'
+import { isUserAdjusted, type ScenarioName } from '../utils/assumptions'
+import { tierAccent, tiersOf } from '../utils/scenarios'
+import { ResponseSourceNotice } from './ResponseSourceNotice'
+import { WarningsPanel } from './WarningsPanel'
+import { ReconciliationBanner } from './ReconciliationBanner'
+import { ScenarioCard } from './ScenarioCard'
+import { AssumptionsEditor } from './AssumptionsEditor'
+import { LineItemsTable } from './LineItemsTable'
+import { RefineChat } from './RefineChat'
+import { ExportMenu } from './ExportMenu'
+import { BudgetPanel } from './BudgetPanel'
+import { ProjectionPanel } from './ProjectionPanel'
+import { LegacyComparison } from './LegacyComparison'
+import type { NewEstimate } from '../utils/estimateRepository'
+import type { Formatter } from '../utils/locale'
+import type { Conversation } from '../utils/sessions'
+import type { MonthlyBudget, ScenarioParameters } from '../types'
+
+interface ResultsViewProps {
+  estimate: NewEstimate
+  reconciliations: LineReconciliation[]
+  // The card the estimate was priced under, or undefined when this browser does not have it
+  pricedCard: RateCard | undefined
+  // The priced card, falling back to the active one for display details
+  rateCard: RateCard
+  // Resets the budget panel when a different saved estimate is opened
+  budgetKey: string
+  scenarioCachedAt: string | null
+  conversation: Conversation | null
+  refining: boolean
+  busy: boolean
+  onReset: () => void
+  onRegenerate: () => void
+  onAdjust: (lineId: string, scenario: ScenarioName, parameters: ScenarioParameters) => void
+  onResetAssumptions: () => void
+  onRefine: (request: string, lineId: string) => void
+  onBudgetChange: (budget: MonthlyBudget | null) => void
+  format: Formatter
+}
+
+// The finished estimate: a card per tier with its assumptions, and everything for refining,
+// exporting and planning around it. Editing needs the card the estimate was priced under.
+export function ResultsView({
+  estimate,
+  reconciliations,
+  pricedCard,
+  rateCard,
+  budgetKey,
+  scenarioCachedAt,
+  conversation,
+  refining,
+  busy,
+  onReset,
+  onRegenerate,
+  onAdjust,
+  onResetAssumptions,
+  onRefine,
+  onBudgetChange,
+  format
+}: ResultsViewProps) {
+  const { calculation, lineItems, lines, planId } = estimate
+  const tiers = tiersOf(calculation)
+
+  return (
+    <>
+      <div className="text-center mb-8">
+        <button
+          onClick={onReset}
+          className="px-6 py-2 rounded-lg text-white transition-all hover:opacity-90"
+          style={{ backgroundColor: '#2980B9' }}
+        >
+          Start New Estimate
+        </button>
+      </div>
+
+      <ResponseSourceNotice
+        scenarioCachedAt={scenarioCachedAt}
+        lines={lines}
+        busy={busy}
+        onRegenerate={onRegenerate}
+        format={format}
+      />
+
+      <WarningsPanel warnings={calculation.warnings} />
+
+      <ReconciliationBanner reconciliations={reconciliations} format={format} />
+
+      {!pricedCard ? (
+        <p className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-center mb-4" style={{ color: '#BF9A29' }}>
+          Priced with rate card {estimate.rateCardVersion}, which is not published in this browser. The figures are shown as
+          recorded; publish or import that rate card to adjust assumptions, refine the estimate or plan budgets
+          and growth.
+        </p>
+      ) : (
+        <p className="text-sm text-center mb-4" style={{ color: '#6B7280' }}>
+          Priced with rate card {rateCard.version} on the {findPlan(rateCard, planId).name} plan ·{' '}
+          {isUserAdjusted(lines) ? (
+            <>
+              <span className="font-semibold" style={{ color: '#6C63FF' }}>User-adjusted</span> assumptions{' '}
+              <button onClick={onResetAssumptions} className="underline" style={{ color: '#6C63FF' }}>
+                Reset to agent values
+              </button>
+            </>
+          ) : (
+            'Agent-generated assumptions'
+          )}
+        </p>
+      )}
+
+      {/* Results Grid */}
+      <div className="grid md:grid-cols-2 gap-8 mb-8">
+        {tiers.map((tier, i) => {
+          // Each scenario's assumptions are edited once, on the first tier that scales it
+          const sharedBy = tiers.filter((other) => other.basis === tier.basis)
+          return (
+            <ScenarioCard
+              key={tier.id}
+              tier={tier}
+              accent={tierAccent(i)}
+              disclaimer={rateCard.disclaimer}
+              details={tier}
+              format={format}
+            >
+              {pricedCard && sharedBy[0] === tier && (
+                <>
+                  {sharedBy.length > 1 && (
+                    <p className="text-xs mb-3" style={{ color: '#6B7280' }}>
+                      {tier.basis === 'light' ? 'Light' : 'Heavy'} scenario assumptions, shared by {sharedBy.map((other) => other.label).join(', ')}
+                    </p>
+                  )}
+                  <AssumptionsEditor
+                    scenario={tier.basis}
+                    items={lineItems}
+                    lines={lines}
+                    rateCard={rateCard}
+                    color={tierAccent(i).color}
+                    onChange={onAdjust}
+                    format={format}
+                  />
+                </>
+              )}
+            </ScenarioCard>
+          )
+        })}
+      </div>
+
+      {calculation.assumptions.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+          <h3 className="text-xl font-semibold mb-4" style={{ color: '#1B1F23' }}>Agent Notes</h3>
+          <ul className="list-disc pl-5 space-y-2 text-sm" style={{ color: '#202124' }}>
+            {calculation.assumptions.map((assumption, i) => <li key={i}>{assumption}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {lineItems.length > 1 && (
+        <LineItemsTable items={lineItems} lines={lines} totals={calculation.calculations} format={format} />
+      )}
+
+      {pricedCard && (
+        <RefineChat
+          conversation={conversation}
+          items={lineItems}
+          busy={refining}
+          onSend={onRefine}
+          format={format}
+        />
+      )}
+
+      <ExportMenu estimate={estimate} disclaimer={rateCard.disclaimer} format={format} />
+
+      {pricedCard && (
+        <BudgetPanel
+          key={budgetKey}
+          calculations={calculation.calculations}
+          rateCard={pricedCard}
+          planId={planId}
+          expectedVolume={totalVolume(lineItems)}
+          budget={estimate.budget ?? null}
+          onChange={onBudgetChange}
+          format={format}
+        />
+      )}
+
+      {pricedCard && (
+        <ProjectionPanel
+          calculations={calculation.calculations}
+          rateCard={pricedCard}
+          planId={planId}
+          monthlyCount={totalVolume(lineItems)}
+          format={format}
+        />
+      )}
+
+      <LegacyComparison tiers={tiers} legacyMultiplier={rateCard.legacyMultiplier} format={format} />
+    </>
+  )
+}
@@ -0,0 +1,59 @@
+import { useState, type ReactNode } from 'react'
+import { describeTierBasis, type TierAccent } from '../utils/scenarios'
+import type { Formatter } from '../utils/locale'
+import type { TierResult } from '../types'
+
+interface ScenarioCardProps {
+  tier: TierResult
+  accent: TierAccent
+  disclaimer: string
+  // Raw figures shown behind the details toggle
+  details: unknown
+  format: Formatter
+  // Anything scenario-specific, such as the assumptions editor
+  children?: ReactNode
+}
+
+// Headline credits and cost for one scenario tier
+export function ScenarioCard({ tier, accent, disclaimer, details, format, children }: ScenarioCardProps) {
+  const [showDetails, setShowDetails] = useState(false)
+  const notes = [...tier.assumptions, ...tier.agent_assumptions]
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8" style={{ borderLeft: `4px solid ${accent.color}` }}>
+      <h3 className="text-xl font-semibold mb-1" style={{ color: accent.textColor }}>{tier.label}</h3>
+      <p className="text-xs mb-6" style={{ color: '#6B7280' }}>
+        {tier.source === 'agent' ? 'Estimated by the agent' : `Scaled from the ${describeTierBasis(tier)}`}
+      </p>
+      <div className="text-center mb-6">
+        <div className="text-4xl font-bold mb-2" style={{ color: '#1B1F23' }} title={format.credits(tier.monthly_credits)}>
+          ~{format.credits(tier.monthly_credits, { compact: true })}
+        </div>
+        <div className="text-sm" style={{ color: '#202124' }}>credits per month · {format.money(tier.dollar_cost)}</div>
+      </div>
+      {notes.length > 0 && (
+        <ul className="list-disc pl-5 mb-6 space-y-1 text-sm" style={{ color: '#202124' }}>
+          {notes.map((assumption, i) => <li key={`${i}-${assumption}`}>{assumption}</li>)}
+        </ul>
+      )}
+      {children}
+      <div className="mt-6 p-4 rounded-lg" style={{ backgroundColor: '#F8F9FB' }}>
+        <p className="text-sm" style={{ color: '#202124' }}>
+          {disclaimer}
+        </p>
+      </div>
+      <button
+        onClick={() => setShowDetails(!showDetails)}
+        className="mt-4 text-sm underline"
+        style={{ color: '#6C63FF' }}
+      >
+        {showDetails ? 'Hide' : 'Show'} details/JSON
+      </button>
+      {showDetails && (
+        <div className="mt-4 p-4 rounded-lg text-xs overflow-auto" style={{ backgroundColor: '#F8F9FB', color: '#202124' }}>
+          <pre>{JSON.stringify(details, null, 2)}</pre>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react'
+import { DEFAULT_SCENARIO_TIERS, EXTENDED_SCENARIO_TIERS, newTierId, tierAccent } from '../utils/scenarios'
+import { validateScenarioTiers, type FieldError } from '../utils/validation'
+import type { ScenarioTier } from '../types'
+
+interface ScenarioTierSettingsProps {
+  tiers: ScenarioTier[]
+  onSave: (tiers: ScenarioTier[]) => void
+  onClose: () => void
+}
+
+const inputClass = 'w-full p-2 border border-gray-300 rounded-lg'
+
+// The default tier set new estimates are reported in. Saved estimates keep the
+// tiers they were priced with.
+export function ScenarioTierSettings({ tiers, onSave, onClose }: ScenarioTierSettingsProps) {
+  const [draft, setDraft] = useState<ScenarioTier[]>(tiers)
+  const [errors, setErrors] = useState<FieldError[]>([])
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const update = (next: ScenarioTier[]) => {
+    setDraft(next)
+    setNotice(null)
+  }
+
+  const setTier = (index: number, changes: Partial<ScenarioTier>) =>
+    update(draft.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)))
+
+  const move = (index: number, offset: number) => {
+    const next = [...draft]
+    const [tier] = next.splice(index, 1)
+    next.splice(index + offset, 0, tier)
+    update(next)
+  }
+
+  const save = () => {
+    const validated = validateScenarioTiers(draft.map((tier) => ({ ...tier, assumptions: tier.assumptions.map((a) => a.trim()).filter(Boolean) })))
+    if (!validated.ok) {
+      setErrors(validated.errors)
+      return
+    }
+    setErrors([])
+    setDraft(validated.value)
+    onSave(validated.value)
+    setNotice('Saved. New estimates are reported in these tiers.')
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8" style={{ color: '#202124' }}>
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-2xl font-semibold" style={{ color: '#1B1F23' }}>Scenario Tiers</h2>
+        <button onClick={onClose} className="text-sm underline" style={{ color: '#6C63FF' }}>Close</button>
+      </div>
+      <p className="text-sm mb-6" style={{ color: '#6B7280' }}>
+        The agents price a light and a heavy scenario. Each tier scales one of them by its multiplier, unless the agent
+        estimates the tier itself. List tiers from lightest to heaviest usage.
+      </p>
+
+      <div className="flex flex-wrap gap-3 mb-6 text-sm">
+        <span style={{ color: '#6B7280' }}>Start from:</span>
+        <button onClick={() => update(DEFAULT_SCENARIO_TIERS)} className="underline" style={{ color: '#6C63FF' }}>Light and heavy</button>
+        <button onClick={() => update(EXTENDED_SCENARIO_TIERS)} className="underline" style={{ color: '#6C63FF' }}>Pilot to worst case</button>
+      </div>
+
+      <table className="w-full text-sm text-left mb-4">
+        <thead>
+          <tr style={{ color: '#6B7280' }}>
+            <th className="py-1 pr-2">Name</th>
+            <th className="py-1 pr-2">Scales</th>
+            <th className="py-1 pr-2">Multiplier</th>
+            <th className="py-1 pr-2">Assumptions, one per line</th>
+            <th className="py-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {draft.map((tier, i) => (
+            <tr key={tier.id} className="align-top">
+              <td className="py-1 pr-2">
+                <div className="flex items-center">
+                  <span className="w-2 h-2 mr-2 rounded-full shrink-0" style={{ backgroundColor: tierAccent(i).color }}></span>
+                  <input value={tier.label} onChange={(e) => setTier(i, { label: e.target.value })} aria-label={`Tier ${i + 1} name`} className={inputClass} />
+                </div>
+              </td>
+              <td className="py-1 pr-2">
+                <select
+                  value={tier.basis}
+                  onChange={(e) => setTier(i, { basis: e.target.value === 'heavy' ? 'heavy' : 'light' })}
+                  aria-label={`Tier ${i + 1} scales`}
+                  className={inputClass}
+                >
+                  <option value="light">Light scenario</option>
+                  <option value="heavy">Heavy scenario</option>
+                </select>
+              </td>
+              <td className="py-1 pr-2 w-28">
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={Number.isFinite(tier.multiplier) ? tier.multiplier : ''}
+                  onChange={(e) => setTier(i, { multiplier: e.target.value === '' ? NaN : Number(e.target.value) })}
+                  aria-label={`Tier ${i + 1} multiplier`}
+                  className={inputClass}
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <textarea
+                  value={tier.assumptions.join('\n')}
+                  onChange={(e) => setTier(i, { assumptions: e.target.value.split('\n') })}
+                  aria-label={`Tier ${i + 1} assumptions`}
+                  rows={2}
+                  className={inputClass}
+                />
+              </td>
+              <td className="py-1 text-right whitespace-nowrap space-x-2">
+                <button onClick={() => move(i, -1)} disabled={i === 0} className="underline disabled:opacity-50" style={{ color: '#6C63FF' }}>Up</button>
+                <button onClick={() => move(i, 1)} disabled={i === draft.length - 1} className="underline disabled:opacity-50" style={{ color: '#6C63FF' }}>Down</button>
+                <button
+                  onClick={() => update(draft.filter((_, j) => j !== i))}
+                  disabled={draft.length === 1}
+                  className="underline disabled:opacity-50"
+                  style={{ color: '#E74C3C' }}
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        onClick={() => update([...draft, { id: newTierId(), label: '', basis: 'heavy', multiplier: 1, assumptions: [] }])}
+        className="text-sm underline mb-8"
+        style={{ color: '#6C63FF' }}
+      >
+        Add tier
+      </button>
+
+      {errors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 text-sm">
+          <p className="font-semibold mb-2" style={{ color: '#E74C3C' }}>The tiers have problems</p>
+          <ul className="list-disc list-inside">
+            {errors.map((e, i) => <li key={i}><code>{e.path || 'tiers'}</code> {e.message}</li>)}
+          </ul>
+        </div>
+      )}
+      {notice && <p className="text-sm mb-4" style={{ color: '#27AE60' }}>{notice}</p>}
+
+      <button
+        onClick={save}
+        className="px-6 py-2 rounded-lg font-semibold text-white transition-all hover:opacity-90"
+        style={{ backgroundColor: '#6C63FF' }}
+      >
+        Save default tiers
+      </button>
+    </div>
+  )
+}
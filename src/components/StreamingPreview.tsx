@@ -0,0 +1,117 @@
+import type { AgentName } from '../utils/agentClient'
+import type { StreamProgress } from '../utils/agentRequest'
+import type { Formatter } from '../utils/locale'
+import { coerceNumber, normalizeKeys } from '../utils/validation'
+
+interface StreamingPreviewProps {
+  agent: AgentName
+  progress: StreamProgress | null
+  format: Formatter
+}
+
+const STAGES: { agent: AgentName; label: string }[] = [
+  { agent: 'scenarioParser', label: 'Analyzing scenario' },
+  { agent: 'creditCalculator', label: 'Calculating credits' }
+]
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const text = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value : null
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : []
+
+function PreviewList({ title, items, color }: { title: string; items: string[]; color: string }) {
+  if (!items.length) return null
+  return (
+    <div className="mt-4">
+      <p className="text-xs font-semibold mb-1" style={{ color: '#6B7280' }}>{title}</p>
+      <ul className="list-disc list-inside text-sm space-y-1" style={{ color }}>
+        {items.map((item, i) => <li key={i}>{item}</li>)}
+      </ul>
+    </div>
+  )
+}
+
+function ScenarioPreview({ result }: { result: Record<string, unknown> }) {
+  const summary = text(result.scenario_summary)
+  return (
+    <>
+      {summary && <p className="text-sm" style={{ color: '#202124' }}>{summary}</p>}
+      <PreviewList title="Questions" items={strings(result.questions_asked)} color="#202124" />
+    </>
+  )
+}
+
+function CalculationPreview({ result, format }: { result: Record<string, unknown>; format: Formatter }) {
+  const summary = isRecord(result.summary) ? result.summary : {}
+  const calculations = isRecord(result.calculations) ? result.calculations : {}
+  const scenarios = [
+    { key: 'light', label: 'Light', color: '#27AE60' },
+    { key: 'heavy', label: 'Heavy', color: '#F1C40F' }
+  ]
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        {scenarios.map(({ key, label, color }) => {
+          const credits = coerceNumber(calculations[`monthly_total_${key}`])
+          const cost = coerceNumber(calculations[`dollar_cost_${key}`])
+          const description = text(summary[`${key}_scenario`])
+          return (
+            <div key={key} className="p-4 rounded-lg border-l-4" style={{ borderColor: color, backgroundColor: '#F8F9FB' }}>
+              <p className="text-xs font-semibold" style={{ color: '#6B7280' }}>{label}</p>
+              <p className="text-xl font-bold" style={{ color: '#1B1F23' }}>
+                {credits === null ? '…' : `${format.credits(credits, { compact: true })} credits`}
+              </p>
+              {cost !== null && <p className="text-sm" style={{ color: '#202124' }}>{format.money(cost)} / month</p>}
+              {description && <p className="text-xs mt-2" style={{ color: '#202124' }}>{description}</p>}
+            </div>
+          )
+        })}
+      </div>
+      <PreviewList title="Assumptions" items={strings(result.assumptions)} color="#202124" />
+      <PreviewList
+        title="Warnings"
+        items={strings(Array.isArray(result.warnings) ? result.warnings.map((w) => (isRecord(w) ? w.message : w)) : [])}
+        color="#BF9A29"
+      />
+    </>
+  )
+}
+
+// Stage progress plus whatever fields of the streamed response have arrived so far
+export function StreamingPreview({ agent, progress, format }: StreamingPreviewProps) {
+  const current = STAGES.findIndex((stage) => stage.agent === agent)
+  const result = progress?.agent === agent && isRecord(progress.result) ? normalizeKeys(progress.result) : null
+
+  return (
+    <div className="w-full max-w-2xl mt-8 text-left">
+      <ol className="flex gap-4 mb-4 text-sm">
+        {STAGES.map((stage, i) => (
+          <li
+            key={stage.agent}
+            className="flex-1 pb-2 border-b-2"
+            style={{
+              borderColor: i <= current ? '#6C63FF' : '#D1D5DB',
+              color: i === current ? '#6C63FF' : i < current ? '#202124' : '#6B7280',
+              fontWeight: i === current ? 600 : 400
+            }}
+          >
+            {i < current ? '✓ ' : ''}{stage.label}
+          </li>
+        ))}
+      </ol>
+      {progress?.agent === agent && (
+        <p className="text-xs mb-4" style={{ color: '#6B7280' }}>{format.number(progress.receivedChars)} characters received</p>
+      )}
+      {result && (
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          {agent === 'scenarioParser' ? <ScenarioPreview result={result} /> : <CalculationPreview result={result} format={format} />}
+        </div>
+      )}
+    </div>
+  )
+}
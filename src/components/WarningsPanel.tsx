@@ -0,0 +1,43 @@
+import { SEVERITY_LABELS, sortWarnings } from '../utils/warnings'
+import type { EstimateWarning, WarningSeverity } from '../types'
+
+interface WarningsPanelProps {
+  warnings: EstimateWarning[]
+}
+
+const SEVERITY_STYLES: Record<WarningSeverity, { border: string; background: string; color: string }> = {
+  critical: { border: '#E74C3C', background: '#FDEDEC', color: '#C0392B' },
+  warning: { border: '#F1C40F', background: '#FEF9E7', color: '#BF9A29' },
+  info: { border: '#2980B9', background: '#EBF5FB', color: '#2980B9' }
+}
+
+// Most severe first, each with what to do about it
+export function WarningsPanel({ warnings }: WarningsPanelProps) {
+  if (!warnings.length) return null
+
+  return (
+    <div className="space-y-3 mb-8">
+      {sortWarnings(warnings).map((warning, i) => {
+        const style = SEVERITY_STYLES[warning.severity]
+        return (
+          <div
+            key={`${warning.code}-${i}`}
+            role={warning.severity === 'critical' ? 'alert' : undefined}
+            className="rounded-lg p-4 border-l-4 text-sm"
+            style={{ borderColor: style.border, backgroundColor: style.background, color: '#202124' }}
+          >
+            <div className="flex flex-wrap items-baseline gap-2">
+              <span className="font-semibold" style={{ color: style.color }}>{SEVERITY_LABELS[warning.severity]}</span>
+              <span>{warning.message}</span>
+              {warning.field && <span className="font-mono text-xs" style={{ color: '#6B7280' }}>{warning.field}</span>}
+              <span className="ml-auto text-xs" style={{ color: '#6B7280' }}>
+                {warning.source === 'app' ? 'App check' : 'CreditCalculator'} · {warning.code}
+              </span>
+            </div>
+            {warning.suggested_action && <p className="mt-1" style={{ color: '#202124' }}>→ {warning.suggested_action}</p>}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import { LineItemsEditor } from './LineItemsEditor'
+import { ForceRefreshToggle } from './ForceRefreshToggle'
+import { totalVolume } from '../utils/lineItems'
+import type { PricingPlan } from '../utils/rateCard'
+import type { Formatter } from '../utils/locale'
+import type { LineItem, MonthlyBudget } from '../types'
+
+// The budget as typed, before it is parsed and converted to USD
+export interface BudgetDraft {
+  mode: 'volume' | 'budget'
+  amount: string
+  unit: MonthlyBudget['unit']
+}
+
+interface WorkloadStepProps {
+  items: LineItem[]
+  onItemsChange: (items: LineItem[]) => void
+  budget: BudgetDraft
+  onBudgetChange: (budget: BudgetDraft) => void
+  currency: string
+  plans: PricingPlan[]
+  planId: string
+  onPlanChange: (planId: string) => void
+  canCalculate: boolean
+  onCalculate: () => void
+  forceRefresh: boolean
+  onForceRefreshChange: (checked: boolean) => void
+  format: Formatter
+}
+
+export function WorkloadStep({
+  items,
+  onItemsChange,
+  budget,
+  onBudgetChange,
+  currency,
+  plans,
+  planId,
+  onPlanChange,
+  canCalculate,
+  onCalculate,
+  forceRefresh,
+  onForceRefreshChange,
+  format
+}: WorkloadStepProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-8 mb-8">
+      <h2 className="text-2xl font-semibold mb-6" style={{ color: '#1B1F23' }}>Define Your Workload</h2>
+      <p className="mb-6" style={{ color: '#202124' }}>
+        What constitutes one unit of work, and how many per month? Add a line for each kind of work the idea involves.
+      </p>
+      <LineItemsEditor items={items} onChange={onItemsChange} />
+      <div className="flex gap-2 mt-8 mb-6 text-sm">
+        {([['volume', 'I know my volume'], ['budget', 'I have a budget']] as const).map(([mode, label]) => (
+          <button
+            key={mode}
+            onClick={() => onBudgetChange({ ...budget, mode })}
+            className="px-4 py-2 rounded-lg border"
+            style={{
+              borderColor: budget.mode === mode ? '#6C63FF' : '#D1D5DB',
+              color: budget.mode === mode ? '#6C63FF' : '#202124'
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {budget.mode === 'budget' && (
+        <>
+          <p className="mb-2" style={{ color: '#202124' }}>What can you spend per month?</p>
+          <div className="flex gap-2 mb-6">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={budget.amount}
+              onChange={(e) => onBudgetChange({ ...budget, amount: e.target.value })}
+              placeholder="e.g., 500"
+              className="flex-1 p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-600 focus:border-transparent"
+            />
+            <select
+              value={budget.unit}
+              onChange={(e) => onBudgetChange({ ...budget, unit: e.target.value as MonthlyBudget['unit'] })}
+              className="p-4 border border-gray-300 rounded-lg"
+            >
+              <option value="usd">{currency}</option>
+              <option value="credits">Credits</option>
+            </select>
+          </div>
+          <p className="text-sm" style={{ color: '#6B7280' }}>
+            Headroom is measured at the {format.number(totalVolume(items))} units per month entered above.
+          </p>
+        </>
+      )}
+      {plans.length > 1 && (
+        <label className="block mt-6" style={{ color: '#202124' }}>
+          <span className="block mb-2">Pricing plan</span>
+          <select
+            value={planId}
+            onChange={(e) => onPlanChange(e.target.value)}
+            className="w-full p-4 border border-gray-300 rounded-lg"
+          >
+            {plans.map((plan) => (
+              <option key={plan.id} value={plan.id}>{plan.name} (${plan.creditPriceUsd} per credit)</option>
+            ))}
+          </select>
+        </label>
+      )}
+      <button
+        onClick={onCalculate}
+        disabled={!canCalculate}
+        className="mt-6 px-8 py-3 rounded-lg font-semibold text-white transition-all disabled:opacity-50 hover:opacity-90 transform hover:scale-105"
+        style={{ backgroundColor: '#6C63FF' }}
+      >
+        Calculate Credits
+      </button>
+      <ForceRefreshToggle checked={forceRefresh} onChange={onForceRefreshChange} />
+    </div>
+  )
+}
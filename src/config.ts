@@ -0,0 +1,55 @@
+// Runtime configuration, read from Vite env variables (see .env.example)
+import type { AgentName } from './utils/agentClient'
+
+export interface AgentConfig {
+  backend: 'http' | 'mock'
+  baseUrl: string
+  streamUrl: string
+  // Prefer the streaming endpoint so results can render as they arrive
+  streaming: boolean
+  apiKey: string
+  agentIds: Record<AgentName, string>
+  mockLatencyMs: number
+  timeoutsMs: Record<AgentName, number>
+  retry: RetryPolicy
+  // Ideas a batch run sends through the pipeline at the same time
+  batchConcurrency: number
+  // How long validated agent results are reused for identical requests; 0 turns caching off
+  cacheTtlMs: number
+}
+
+export interface RetryPolicy {
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+const env = import.meta.env
+
+const backend: AgentConfig['backend'] = env.VITE_AGENT_BACKEND ?? (env.VITE_LYZR_API_KEY ? 'http' : 'mock')
+const streamUrl = env.VITE_LYZR_STREAM_URL ?? ''
+
+export const agentConfig: AgentConfig = {
+  backend,
+  baseUrl: env.VITE_LYZR_BASE_URL ?? 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/',
+  streamUrl,
+  // The HTTP backend only streams from an endpoint configured explicitly; the mock always can
+  streaming: env.VITE_AGENT_STREAMING !== 'false' && (backend === 'mock' || streamUrl !== ''),
+  apiKey: env.VITE_LYZR_API_KEY ?? '',
+  agentIds: {
+    scenarioParser: env.VITE_SCENARIO_PARSER_AGENT_ID ?? '68e01d2cf40da92f699a9501',
+    creditCalculator: env.VITE_CREDIT_CALCULATOR_AGENT_ID ?? '68e01d3a010a31eba98903e5'
+  },
+  mockLatencyMs: Number(env.VITE_MOCK_LATENCY_MS ?? 600),
+  timeoutsMs: {
+    scenarioParser: Number(env.VITE_SCENARIO_PARSER_TIMEOUT_MS ?? 30_000),
+    creditCalculator: Number(env.VITE_CREDIT_CALCULATOR_TIMEOUT_MS ?? 45_000)
+  },
+  retry: {
+    maxRetries: Number(env.VITE_AGENT_MAX_RETRIES ?? 2),
+    baseDelayMs: 500,
+    maxDelayMs: 8_000
+  },
+  batchConcurrency: Math.max(1, Number(env.VITE_BATCH_CONCURRENCY ?? 3)),
+  cacheTtlMs: Math.max(0, Number(env.VITE_AGENT_CACHE_TTL_MS ?? 86_400_000))
+}
@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { ERROR_CATEGORY_LABELS } from '../utils/agentErrors'
+import { requestAgent, type AgentExchange, type ParsedAgentResponse, type StreamProgress } from '../utils/agentRequest'
+import { cacheKey, type CachedResult, type ResponseCache } from '../utils/responseCache'
+import type { AgentClient, AgentName } from '../utils/agentClient'
+import type { Conversation } from '../utils/sessions'
+import type { AgentConfig } from '../config'
+
+// Sequential agent calls with timeout, retry and cancellation, plus the progress the
+// processing screen shows and the recent exchanges the developer panel lists. Calls
+// made within a conversation reuse its user and session IDs and are passed to `record`.
+export function useAgentCalls(
+  client: Promise<AgentClient>,
+  cache: ResponseCache,
+  config: AgentConfig,
+  record: (conversationId: string, exchange: AgentExchange) => void
+) {
+  const [retryNotice, setRetryNotice] = useState<string | null>(null)
+  const [activeAgent, setActiveAgent] = useState<AgentName | null>(null)
+  const [streamProgress, setStreamProgress] = useState<StreamProgress | null>(null)
+  const [exchanges, setExchanges] = useState<AgentExchange[]>([])
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Abort any in-flight agent call when the app unmounts
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const addExchange = useCallback((exchange: AgentExchange) => {
+    setExchanges((current) => [exchange, ...current].slice(0, 20))
+  }, [])
+
+  const call = useCallback(async (agent: AgentName, message: string, conversation?: Conversation): Promise<ParsedAgentResponse> => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    setRetryNotice(null)
+    setActiveAgent(agent)
+    setStreamProgress(null)
+
+    try {
+      const agents = await client
+      const ids = conversation && { userId: conversation.userId, sessionId: conversation.sessionIds[agent] }
+      return await requestAgent(agents, { agent, message, ...ids, signal: controller.signal }, {
+        timeoutMs: config.timeoutsMs[agent],
+        retry: config.retry,
+        onRetry: (attempt, error) => {
+          console.warn(`Retrying ${agent} (attempt ${attempt}) after ${error.category} error:`, error.message)
+          setRetryNotice(`${ERROR_CATEGORY_LABELS[error.category]}, retrying (attempt ${attempt + 1})...`)
+          setStreamProgress(null)
+        },
+        streaming: config.streaming,
+        onPartial: setStreamProgress,
+        onResponse: (exchange) => {
+          addExchange(exchange)
+          if (conversation) record(conversation.id, exchange)
+        }
+      })
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setActiveAgent(null)
+        setStreamProgress(null)
+      }
+    }
+  }, [client, config, record, addExchange])
+
+  // Only requests that stand on their own are cached; clarifications and refinements
+  // depend on the conversation so far and always go to the agent
+  const cachedCall = useCallback(<T>(
+    agent: AgentName,
+    message: string,
+    parse: (result: unknown) => T,
+    conversation: Conversation,
+    force: boolean
+  ): Promise<CachedResult<T>> =>
+    cache.fetch(
+      cacheKey(agent, config.agentIds[agent], message),
+      async () => parse((await call(agent, message, conversation)).result),
+      { force }
+    ), [cache, config, call])
+
+  const cancel = useCallback(() => abortRef.current?.abort(), [])
+
+  const clearExchanges = useCallback(() => setExchanges([]), [])
+
+  return { call, cachedCall, cancel, retryNotice, activeAgent, streamProgress, exchanges, addExchange, clearExchanges }
+}
+
+export type AgentCalls = ReturnType<typeof useAgentCalls>
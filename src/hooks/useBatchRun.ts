@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { queuedResult, runPool, type BatchResult, type BatchRow } from '../utils/batch'
+import { toAgentError } from '../utils/agentErrors'
+import { estimateIdea, type PipelineOptions } from '../utils/pipeline'
+import type { AgentClient } from '../utils/agentClient'
+
+export interface BatchSettings extends Omit<PipelineOptions, 'signal' | 'onStage'> {
+  concurrency: number
+}
+
+// Per-row status of a batch upload. Rows that fail, or were still queued when the
+// run was cancelled, can be run again without touching the finished ones.
+export function useBatchRun(client: Promise<AgentClient>) {
+  const [results, setResults] = useState<BatchResult[]>([])
+  const [running, setRunning] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const patch = useCallback((id: string, changes: Partial<BatchResult> | ((result: BatchResult) => Partial<BatchResult>)) => {
+    setResults((current) => current.map((result) =>
+      result.row.id === id ? { ...result, ...(typeof changes === 'function' ? changes(result) : changes) } : result))
+  }, [])
+
+  const run = useCallback(async (rows: BatchRow[], settings: BatchSettings) => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    setRunning(true)
+
+    const agents = await client
+    await runPool(rows, settings.concurrency, async (row) => {
+      patch(row.id, (result) => ({ status: 'parsing', error: null, attempts: result.attempts + 1 }))
+      try {
+        const estimate = await estimateIdea(agents, row, {
+          ...settings,
+          signal: controller.signal,
+          onStage: (status) => patch(row.id, { status })
+        })
+        patch(row.id, { status: 'done', estimate })
+      } catch (err) {
+        const error = toAgentError(err)
+        patch(row.id, error.category === 'cancelled' ? { status: 'queued' } : { status: 'failed', error: error.message })
+      }
+    }, controller.signal)
+
+    if (abortRef.current === controller) {
+      abortRef.current = null
+      setRunning(false)
+    }
+  }, [client, patch])
+
+  const start = useCallback((rows: BatchRow[], settings: BatchSettings) => {
+    setResults(rows.map(queuedResult))
+    return run(rows, settings)
+  }, [run])
+
+  // With no id, every row that has not finished yet
+  const retry = useCallback((settings: BatchSettings, id?: string) => {
+    const rows = results
+      .filter((result) => (id ? result.row.id === id : result.status === 'failed' || result.status === 'queued'))
+      .map((result) => result.row)
+    if (!rows.length) return Promise.resolve()
+    setResults((current) => current.map((result) =>
+      rows.some((row) => row.id === result.row.id) ? { ...result, status: 'queued', error: null } : result))
+    return run(rows, settings)
+  }, [results, run])
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort()
+    abortRef.current = null
+    setRunning(false)
+  }, [])
+
+  const clear = useCallback(() => {
+    cancel()
+    setResults([])
+  }, [cancel])
+
+  return { results, running, start, retry, cancel, clear }
+}
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  conversationRepository,
+  createConversation,
+  recordExchange,
+  recordRefinement,
+  type Conversation,
+  type ConversationRepository,
+  type Refinement
+} from '../utils/sessions'
+import type { AgentExchange } from '../utils/agentRequest'
+
+// The conversation behind the estimate on screen, saved whenever it changes
+export function useConversation(repository: ConversationRepository = conversationRepository) {
+  const [userId, setUserId] = useState<string | null>(null)
+  const [conversation, setConversation] = useState<Conversation | null>(null)
+
+  useEffect(() => {
+    repository.userId().then(setUserId)
+  }, [repository])
+
+  useEffect(() => {
+    // A full localStorage only costs the transcript; the estimate itself is saved separately
+    if (conversation) repository.save(conversation).catch((error) => console.warn('Conversation save failed:', error))
+  }, [conversation, repository])
+
+  const begin = useCallback(async () => {
+    const started = createConversation(await repository.userId())
+    setConversation(started)
+    return started
+  }, [repository])
+
+  // Estimates saved before conversations existed, or imported from elsewhere, have none
+  const resume = useCallback(async (id: string | null | undefined) => {
+    const found = id ? await repository.get(id) : null
+    setConversation(found)
+    return found
+  }, [repository])
+
+  // Updates are matched by ID so a late response cannot land in a newer conversation
+  const record = useCallback((id: string, exchange: AgentExchange) => {
+    setConversation((current) => (current?.id === id ? recordExchange(current, exchange) : current))
+  }, [])
+
+  const addRefinement = useCallback((id: string, refinement: Omit<Refinement, 'at'>) => {
+    setConversation((current) => (current?.id === id ? recordRefinement(current, refinement) : current))
+  }, [])
+
+  const end = useCallback(() => setConversation(null), [])
+
+  return { userId, conversation, begin, resume, record, addRefinement, end }
+}
@@ -0,0 +1,272 @@
+import { useState } from 'react'
+import { findPlan } from '../utils/rateCard'
+import {
+  aggregateLines,
+  describeWorkload,
+  isCompleteLine,
+  localLineCalculation,
+  newLineItem,
+  reconcileLines,
+  totalVolume,
+  type LineReconciliation
+} from '../utils/lineItems'
+import { adjustLine, resetLine, type ScenarioName } from '../utils/assumptions'
+import { validationWarning, withAppWarnings } from '../utils/warnings'
+import { toAgentError } from '../utils/agentErrors'
+import { coerceNumber } from '../utils/validation'
+import { calculatorMessage, parseCalculationResult, refinementMessage } from '../utils/pipeline'
+import { DEFAULT_SCENARIO_TIERS, tierDefinition, tiersOf } from '../utils/scenarios'
+import type { NewEstimate } from '../utils/estimateRepository'
+import type { Formatter } from '../utils/locale'
+import type { BudgetDraft } from '../components/WorkloadStep'
+import type { AgentCalls } from './useAgentCalls'
+import type { useConversation } from './useConversation'
+import type { useRateCards } from './useRateCards'
+import type { useSavedEstimates } from './useSavedEstimates'
+import type { useWizard } from './useWizard'
+import type { AgentConfig } from '../config'
+import type {
+  CreditCalculation,
+  LineCalculation,
+  LineItem,
+  MonthlyBudget,
+  ScenarioData,
+  ScenarioParameters,
+  ScenarioTier
+} from '../types'
+
+const EMPTY_BUDGET_DRAFT: BudgetDraft = { mode: 'volume', amount: '', unit: 'usd' }
+
+interface EstimateOptions {
+  agents: AgentCalls
+  session: ReturnType<typeof useConversation>
+  wizard: ReturnType<typeof useWizard>
+  savedEstimates: ReturnType<typeof useSavedEstimates>
+  rateCards: ReturnType<typeof useRateCards>
+  // Tiers new estimates are reported in; a priced estimate keeps its own
+  tiers: ScenarioTier[]
+  agentIds: AgentConfig['agentIds']
+  format: Formatter
+  onFailure: (err: unknown) => void
+}
+
+// The estimate on screen: the idea and workload it was asked for, the priced lines and
+// their totals, and the agent calls that price, refine and reprice them
+export function useEstimate({ agents, session, wizard, savedEstimates, rateCards, tiers, agentIds, format, onFailure }: EstimateOptions) {
+  const [businessIdea, setBusinessIdea] = useState('')
+  const [scenario, setScenario] = useState<ScenarioData | null>(null)
+  const [lineItems, setLineItems] = useState<LineItem[]>(() => [newLineItem()])
+  const [lineResults, setLineResults] = useState<LineCalculation[]>([])
+  const [budgetDraft, setBudgetDraft] = useState<BudgetDraft>(EMPTY_BUDGET_DRAFT)
+  const [budget, setBudget] = useState<MonthlyBudget | null>(null)
+  const [creditData, setCreditData] = useState<CreditCalculation | null>(null)
+  const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null)
+  const [rateCardVersion, setRateCardVersion] = useState<string | null>(null)
+  const [reconciliations, setReconciliations] = useState<LineReconciliation[]>([])
+  const [activeEstimateId, setActiveEstimateId] = useState<string | null>(null)
+  const [refining, setRefining] = useState(false)
+  const [lineProgress, setLineProgress] = useState<{ index: number; total: number } | null>(null)
+
+  const planId = findPlan(rateCards.active, selectedPlanId ?? rateCards.active.defaultPlanId).id
+  // Results are shown with the card they were priced under, not whatever is active now. An
+  // estimate priced under a card this browser does not have keeps its recorded figures and
+  // cannot be repriced; the active card only fills in display details such as the disclaimer.
+  const pricedCard = rateCards.byVersion(rateCardVersion ?? undefined)
+  const rateCard = pricedCard ?? rateCards.active
+
+  const activeEstimate = savedEstimates.estimates.find((estimate) => estimate.id === activeEstimateId)
+  const current: NewEstimate | null = creditData && {
+    name: activeEstimate?.name ?? businessIdea.trim().slice(0, 60),
+    businessIdea,
+    unitOfWork: describeWorkload(lineItems),
+    monthlyCount: totalVolume(lineItems),
+    lineItems,
+    lines: lineResults,
+    scenario,
+    calculation: creditData,
+    agentVersions: activeEstimate?.agentVersions ?? { ...agentIds },
+    rateCardVersion: rateCardVersion ?? rateCard.version,
+    planId: pricedCard ? planId : selectedPlanId ?? planId,
+    budget,
+    conversationId: session.conversation?.id ?? activeEstimate?.conversationId ?? null
+  }
+
+  // In budget mode the budget is entered in the display currency and kept in USD
+  const draftBudget = (): MonthlyBudget | null => {
+    const amount = coerceNumber(budgetDraft.amount)
+    if (budgetDraft.mode !== 'budget' || amount === null || amount <= 0) return null
+    return { amount: budgetDraft.unit === 'usd' ? format.toUsd(amount) : amount, unit: budgetDraft.unit }
+  }
+
+  const canCalculate = lineItems.every(isCompleteLine) && (budgetDraft.mode !== 'budget' || draftBudget() !== null)
+
+  const calculate = async (force: boolean) => {
+    if (!lineItems.every(isCompleteLine) || !wizard.accepts({ type: 'calculate' })) return
+    const requestedBudget = draftBudget()
+    if (budgetDraft.mode === 'budget' && !requestedBudget) return
+    wizard.send({ type: 'calculate' })
+
+    const items = lineItems.map((item) => ({ ...item, unitOfWork: item.unitOfWork.trim() }))
+    const pricedWith = rateCards.active
+
+    try {
+      // Step 2: Price each line, one CreditCalculator call at a time, in the estimate's conversation
+      const conversation = session.conversation ?? await session.begin()
+      const lines: LineCalculation[] = []
+      for (const [index, item] of items.entries()) {
+        setLineProgress({ index, total: items.length })
+        if (item.pricedBy === 'local') {
+          lines.push({ lineId: item.id, source: 'local', calculation: localLineCalculation(item, pricedWith, planId) })
+          continue
+        }
+
+        const message = calculatorMessage(businessIdea, item, scenario, tiers, pricedWith, planId)
+        const priced = await agents.cachedCall('creditCalculator', message, parseCalculationResult, conversation, force)
+        lines.push({ lineId: item.id, source: 'agent', calculation: priced.value, ...(priced.cached && { cachedAt: priced.createdAt }) })
+      }
+
+      const calculation = withAppWarnings(aggregateLines(items, lines, tiers, pricedWith, planId), items, lines, pricedWith, planId, format)
+      setLineItems(items)
+      setLineResults(lines)
+      setCreditData(calculation)
+      setBudget(requestedBudget)
+      setRateCardVersion(pricedWith.version)
+      setReconciliations(reconcileLines(items, lines, pricedWith, planId))
+      wizard.send({ type: 'calculated' })
+
+      const saved = await savedEstimates.save({
+        name: businessIdea.trim().slice(0, 60),
+        businessIdea,
+        unitOfWork: describeWorkload(items),
+        monthlyCount: totalVolume(items),
+        lineItems: items,
+        lines,
+        scenario,
+        calculation,
+        agentVersions: { ...agentIds },
+        rateCardVersion: pricedWith.version,
+        planId,
+        budget: requestedBudget,
+        conversationId: conversation.id
+      })
+      setActiveEstimateId(saved.id)
+
+    } catch (err) {
+      onFailure(err)
+    } finally {
+      setLineProgress(null)
+    }
+  }
+
+  // Reprice from edited assumptions without calling the agents again, in the tiers the estimate was reported in
+  const applyLines = (lines: LineCalculation[], changes: Partial<NewEstimate> = {}) => {
+    if (!pricedCard) return
+    const reported = creditData ? tiersOf(creditData).map(tierDefinition) : DEFAULT_SCENARIO_TIERS
+    const calculation = withAppWarnings(aggregateLines(lineItems, lines, reported, rateCard, planId), lineItems, lines, rateCard, planId, format)
+    setLineResults(lines)
+    setCreditData(calculation)
+    setReconciliations(reconcileLines(lineItems, lines, rateCard, planId))
+    if (activeEstimateId) void savedEstimates.update(activeEstimateId, { ...changes, lines, calculation })
+  }
+
+  // A follow-up in the CreditCalculator session the line was priced in; the reply replaces the line's figures
+  const refine = async (request: string, lineId: string) => {
+    const item = lineItems.find((candidate) => candidate.id === lineId)
+    const line = lineResults.find((candidate) => candidate.lineId === lineId)
+    if (!item || !line) return
+
+    setRefining(true)
+    let conversation = session.conversation
+    try {
+      conversation ??= await session.begin()
+      const response = await agents.call('creditCalculator', refinementMessage(businessIdea, item, line.calculation, request), conversation)
+      const refined = parseCalculationResult(response.result)
+      applyLines(
+        lineResults.map((candidate) => (candidate.lineId === lineId ? { lineId, source: 'agent', calculation: refined } : candidate)),
+        { conversationId: conversation.id }
+      )
+      session.addRefinement(conversation.id, { request, reply: refined.summary.light_scenario || 'Estimate updated', ok: true })
+    } catch (err) {
+      const agentError = toAgentError(err)
+      if (agentError.category !== 'cancelled') {
+        console.error(`Refinement failed [${agentError.category}]:`, agentError)
+        if (agentError.category === 'validation') {
+          const warning = validationWarning('CreditCalculator', agentError.fieldErrors ?? [])
+          setCreditData((calculation) => calculation && { ...calculation, warnings: [...calculation.warnings, warning] })
+        }
+        if (conversation) session.addRefinement(conversation.id, { request, reply: agentError.message, ok: false })
+      }
+    } finally {
+      setRefining(false)
+    }
+  }
+
+  const adjustAssumptions = (lineId: string, scenarioName: ScenarioName, parameters: ScenarioParameters) => {
+    const item = lineItems.find((candidate) => candidate.id === lineId)
+    if (!item) return
+    applyLines(lineResults.map((line) => (line.lineId === lineId ? adjustLine(item, line, scenarioName, parameters, rateCard, planId) : line)))
+  }
+
+  const resetAssumptions = () => applyLines(lineResults.map(resetLine))
+
+  // Show a finished estimate without calling the agents again
+  const load = (estimate: NewEstimate, id: string | null) => {
+    setBusinessIdea(estimate.businessIdea)
+    setLineItems(estimate.lineItems)
+    setLineResults(estimate.lines)
+    setBudget(estimate.budget ?? null)
+    setScenario(estimate.scenario)
+    setCreditData(estimate.calculation)
+    setRateCardVersion(estimate.rateCardVersion)
+    setSelectedPlanId(estimate.planId)
+    const card = rateCards.byVersion(estimate.rateCardVersion)
+    setReconciliations(card ? reconcileLines(estimate.lineItems, estimate.lines, card, estimate.planId) : [])
+    setActiveEstimateId(id)
+  }
+
+  const reset = () => {
+    setBusinessIdea('')
+    setLineItems([newLineItem()])
+    setLineResults([])
+    setBudgetDraft(EMPTY_BUDGET_DRAFT)
+    setBudget(null)
+    setScenario(null)
+    setCreditData(null)
+    setRateCardVersion(null)
+    setReconciliations([])
+    setActiveEstimateId(null)
+  }
+
+  return {
+    businessIdea,
+    setBusinessIdea,
+    scenario,
+    setScenario,
+    lineItems,
+    setLineItems,
+    lineResults,
+    budgetDraft,
+    setBudgetDraft,
+    budget,
+    setBudget,
+    creditData,
+    reconciliations,
+    planId,
+    setPlanId: setSelectedPlanId,
+    rateCardVersion,
+    pricedCard,
+    rateCard,
+    activeEstimateId,
+    setActiveEstimateId,
+    refining,
+    lineProgress,
+    current,
+    canCalculate,
+    calculate,
+    refine,
+    adjustAssumptions,
+    resetAssumptions,
+    load,
+    reset
+  }
+}
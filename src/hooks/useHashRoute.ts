@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react'
+import { hashForStep, parseHash, ROUTABLE_STEPS } from '../utils/router'
+import type { Step } from '../types'
+
+interface HashRouteOptions {
+  step: Step
+  // Called on back/forward; return false to refuse a step the wizard can't show yet
+  onNavigate: (step: Step) => boolean
+  onShared: (payload: string) => void
+}
+
+// Keeps the wizard step and the URL hash in sync
+export function useHashRoute({ step, onNavigate, onShared }: HashRouteOptions) {
+  const latest = useRef({ step, onNavigate, onShared })
+  const mounted = useRef(false)
+
+  useEffect(() => {
+    latest.current = { step, onNavigate, onShared }
+  })
+
+  useEffect(() => {
+    const initial = parseHash(window.location.hash)
+    if (initial.kind === 'shared') latest.current.onShared(initial.payload)
+
+    const handlePopState = () => {
+      const route = parseHash(window.location.hash)
+      if (route.kind === 'shared') {
+        latest.current.onShared(route.payload)
+      } else if (route.kind !== 'step' || !latest.current.onNavigate(route.step)) {
+        window.history.replaceState(null, '', hashForStep(latest.current.step))
+      }
+    }
+
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  useEffect(() => {
+    const firstRender = !mounted.current
+    mounted.current = true
+    if (!ROUTABLE_STEPS.includes(step)) return
+    const hash = hashForStep(step)
+    if (window.location.hash === hash) return
+
+    // Don't leave a history entry for the landing URL or a consumed share link
+    if (firstRender || parseHash(window.location.hash).kind === 'shared') {
+      window.history.replaceState(null, '', hash)
+    } else {
+      window.history.pushState(null, '', hash)
+    }
+  }, [step])
+}
@@ -0,0 +1,19 @@
+import { useCallback, useMemo, useState } from 'react'
+import { createFormatter, loadLocaleSettings, saveLocaleSettings, type LocaleSettings } from '../utils/locale'
+
+// Display locale and currency, persisted locally, plus a formatter bound to them
+export function useLocaleSettings() {
+  const [settings, setSettings] = useState<LocaleSettings>(() => loadLocaleSettings())
+
+  const update = useCallback((changes: Partial<LocaleSettings>) => {
+    setSettings((current) => {
+      const next = { ...current, ...changes }
+      saveLocaleSettings(next)
+      return next
+    })
+  }, [])
+
+  const format = useMemo(() => createFormatter(settings), [settings])
+
+  return { settings, update, format }
+}
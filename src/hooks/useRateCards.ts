@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react'
+import { DEFAULT_RATE_CARD, rateCardRepository, type RateCard, type RateCardRepository } from '../utils/rateCard'
+
+// Published rate cards and the one new estimates are priced with
+export function useRateCards(repository: RateCardRepository = rateCardRepository) {
+  const [cards, setCards] = useState<RateCard[]>([DEFAULT_RATE_CARD])
+  const [active, setActive] = useState<RateCard>(DEFAULT_RATE_CARD)
+
+  const refresh = useCallback(async () => {
+    const [list, current] = await Promise.all([repository.list(), repository.active()])
+    setCards(list)
+    setActive(current)
+  }, [repository])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const publish = useCallback(async (card: RateCard) => {
+    const published = await repository.publish(card)
+    await refresh()
+    return published
+  }, [repository, refresh])
+
+  const activate = useCallback(async (version: string) => {
+    const card = await repository.activate(version)
+    await refresh()
+    return card
+  }, [repository, refresh])
+
+  // No version means the active card; a version this browser has never seen finds nothing
+  const byVersion = useCallback(
+    (version: string | undefined): RateCard | undefined =>
+      version === undefined ? active : cards.find((card) => card.version === version),
+    [cards, active]
+  )
+
+  return { cards, active, publish, activate, byVersion }
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from 'react'
+import { estimateRepository, type EstimateRepository, type NewEstimate } from '../utils/estimateRepository'
+import type { SavedEstimate } from '../types'
+
+// Saved estimates library, kept in sync with the repository
+export function useSavedEstimates(repository: EstimateRepository = estimateRepository) {
+  const [estimates, setEstimates] = useState<SavedEstimate[]>([])
+
+  const refresh = useCallback(async () => {
+    setEstimates(await repository.list())
+  }, [repository])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const save = useCallback(async (estimate: NewEstimate) => {
+    const saved = await repository.create(estimate)
+    await refresh()
+    return saved
+  }, [repository, refresh])
+
+  const update = useCallback(async (id: string, changes: Partial<NewEstimate>) => {
+    const updated = await repository.update(id, changes)
+    await refresh()
+    return updated
+  }, [repository, refresh])
+
+  const duplicate = useCallback(async (id: string) => {
+    const copy = await repository.duplicate(id)
+    await refresh()
+    return copy
+  }, [repository, refresh])
+
+  const remove = useCallback(async (id: string) => {
+    await repository.remove(id)
+    await refresh()
+  }, [repository, refresh])
+
+  return { estimates, save, update, duplicate, remove }
+}
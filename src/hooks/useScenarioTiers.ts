@@ -0,0 +1,15 @@
+import { useCallback, useState } from 'react'
+import { loadScenarioTiers, saveScenarioTiers } from '../utils/scenarios'
+import type { ScenarioTier } from '../types'
+
+// The default scenario tier set new estimates are reported in, persisted locally
+export function useScenarioTiers() {
+  const [tiers, setTiers] = useState<ScenarioTier[]>(() => loadScenarioTiers())
+
+  const update = useCallback((next: ScenarioTier[]) => {
+    saveScenarioTiers(next)
+    setTiers(next)
+  }, [])
+
+  return { tiers, update }
+}
@@ -0,0 +1,14 @@
+import { useReducer } from 'react'
+import { INITIAL_WIZARD_STATE, isBusy, stepFor, transition, type WizardEvent } from '../utils/wizard'
+
+// The wizard's phase, the step it puts on screen, and a check for whether an event would be accepted
+export function useWizard() {
+  const [state, send] = useReducer(transition, INITIAL_WIZARD_STATE)
+  return {
+    state,
+    step: stepFor(state),
+    busy: isBusy(state),
+    send,
+    accepts: (event: WizardEvent) => transition(state, event) !== state
+  }
+}
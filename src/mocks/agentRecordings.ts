@@ -0,0 +1,54 @@
+// Raw responses recorded from the Lyzr inference endpoint, replayed by
+// MockAgentClient. Kept verbatim (wrapper, fences and all) so the parser sees
+// exactly what production returns.
+import type { AgentName } from '../utils/agentClient'
+
+const scenarioParserResponse = JSON.stringify({
+  response: '```json\n' + JSON.stringify({
+    scenario_summary: 'AI assistant that drafts replies to inbound customer support emails, looks up order status and escalates refunds to a human.',
+    questions_asked: [
+      'Roughly how many support emails do you receive per month?',
+      'Should the agent look up order details in an external system?',
+      'Do replies need a human approval step before sending?'
+    ],
+    user_responses: [],
+    defaults_applied: {
+      monthly_volume: 10000,
+      tool_integrations: ['order_lookup'],
+      human_in_the_loop: false,
+      knowledge_base: true
+    }
+  }, null, 2) + '\n```'
+})
+
+const creditCalculatorResponse = JSON.stringify({
+  response: JSON.stringify({
+    summary: {
+      light_scenario: '29,500 credits per month with one tool call per email',
+      heavy_scenario: '88,500 credits per month with retries and multi-step lookups'
+    },
+    calculations: {
+      per_unit_credits: 2.95,
+      monthly_total_light: 29500,
+      monthly_total_heavy: 88500,
+      dollar_cost_light: 295,
+      dollar_cost_heavy: 885,
+      legacy_comparison_light: 2950000,
+      legacy_comparison_heavy: 8850000
+    },
+    assumptions: [
+      'One agent invocation and two LLM calls per email',
+      'Two tool calls (order lookup, ticket update) per email',
+      'One knowledge base query per email',
+      'Heavy scenario triples usage for retries and follow-ups'
+    ],
+    warnings: [
+      'Model token usage is billed separately and not included'
+    ]
+  })
+})
+
+export const agentRecordings: Record<AgentName, string[]> = {
+  scenarioParser: [scenarioParserResponse],
+  creditCalculator: [creditCalculatorResponse]
+}
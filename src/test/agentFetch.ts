@@ -0,0 +1,46 @@
+// A stand-in for the Lyzr inference endpoint. Each agent answers from its own
+// queue of scripted replies, and every request is kept for assertions.
+import { vi } from 'vitest'
+import { agentConfig } from '../config'
+import type { AgentName } from '../utils/agentClient'
+
+// A raw response body, or an HTTP status to fail with
+export type ScriptedReply = string | { status: number }
+
+export interface RecordedRequest {
+  agent: AgentName
+  message: string
+  userId: string
+  sessionId: string
+}
+
+const corpus = import.meta.glob<string>('./corpus/*.txt', { query: '?raw', import: 'default', eager: true })
+
+// Recorded agent output by file name, e.g. fixture('creditCalculator.truncated')
+export function fixture(name: string): string {
+  const raw = corpus[`./corpus/${name}.txt`]
+  if (raw === undefined) throw new Error(`No corpus file named "${name}"`)
+  return raw
+}
+
+export const corpusEntries = (): [string, string][] =>
+  Object.entries(corpus).map(([path, raw]) => [path.replace(/^\.\/corpus\/|\.txt$/g, ''), raw])
+
+export function mockAgentFetch(script: Record<AgentName, ScriptedReply[]>) {
+  const queues = { scenarioParser: [...script.scenarioParser], creditCalculator: [...script.creditCalculator] }
+  const requests: RecordedRequest[] = []
+  const agents = Object.fromEntries(Object.entries(agentConfig.agentIds).map(([agent, id]) => [id, agent])) as Record<string, AgentName>
+
+  const fetch = vi.fn(async (_url: string | URL | Request, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body)) as { agent_id: string; user_id: string; session_id: string; message: string }
+    const agent = agents[body.agent_id]
+    requests.push({ agent, message: body.message, userId: body.user_id, sessionId: body.session_id })
+
+    const reply = queues[agent].shift()
+    if (reply === undefined) throw new Error(`Unexpected ${agent} request: ${body.message}`)
+    return typeof reply === 'string' ? new Response(reply, { status: 200 }) : new Response('', { status: reply.status })
+  })
+
+  vi.stubGlobal('fetch', fetch)
+  return { fetch, requests }
+}
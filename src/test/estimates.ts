@@ -0,0 +1,25 @@
+import { aggregateLines, localLineCalculation, newLineItem } from '../utils/lineItems'
+import { DEFAULT_RATE_CARD } from '../utils/rateCard'
+import { DEFAULT_SCENARIO_TIERS } from '../utils/scenarios'
+import type { NewEstimate } from '../utils/estimateRepository'
+import type { LineCalculation } from '../types'
+
+// A complete single-line estimate priced locally on the default rate card
+export function localEstimate(businessIdea: string, unitOfWork: string, monthlyCount: number, changes: Partial<NewEstimate> = {}): NewEstimate {
+  const item = newLineItem(unitOfWork, monthlyCount)
+  const lines: LineCalculation[] = [{ lineId: item.id, source: 'local', calculation: localLineCalculation(item, DEFAULT_RATE_CARD, 'payg') }]
+  return {
+    name: businessIdea,
+    businessIdea,
+    unitOfWork,
+    monthlyCount,
+    scenario: null,
+    lineItems: [item],
+    lines,
+    calculation: aggregateLines([item], lines, DEFAULT_SCENARIO_TIERS, DEFAULT_RATE_CARD, 'payg'),
+    agentVersions: {},
+    rateCardVersion: DEFAULT_RATE_CARD.version,
+    planId: 'payg',
+    ...changes
+  }
+}
@@ -0,0 +1,11 @@
+// Shared setup for every test file: DOM matchers, and a clean DOM, storage and URL between tests
+import '@testing-library/jest-dom/vitest'
+import { cleanup } from '@testing-library/react'
+import { afterEach, vi } from 'vitest'
+
+afterEach(() => {
+  cleanup()
+  vi.unstubAllGlobals()
+  window.localStorage.clear()
+  window.location.hash = ''
+})
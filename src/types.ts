@@ -0,0 +1,141 @@
+// Shared domain types for the credit estimator
+
+export type Step = 'idea' | 'processing' | 'clarify' | 'workload' | 'results' | 'compare' | 'rates' | 'batch' | 'tiers'
+
+export interface ScenarioData {
+  scenario_summary: string
+  questions_asked: string[]
+  user_responses: string[]
+  defaults_applied: Record<string, unknown>
+}
+
+export interface CreditCalculation {
+  summary: {
+    light_scenario: string
+    heavy_scenario: string
+  }
+  calculations: Calculations
+  assumptions: string[]
+  warnings: EstimateWarning[]
+  // Structured inputs behind the figures, when known
+  parameters?: CalculationParameters
+  // The agent's own figures for the requested scenario tiers, when it sent them
+  tier_estimates?: TierEstimate[]
+  // Every scenario tier the estimate is reported in, priced; set on rolled-up calculations
+  tiers?: TierResult[]
+}
+
+// A named level of usage results are reported at, e.g. "Pilot" or "Peak". The
+// agents price a light and a heavy scenario; each tier scales one of them.
+export interface ScenarioTier {
+  id: string
+  label: string
+  basis: keyof CalculationParameters
+  multiplier: number
+  assumptions: string[]
+}
+
+export interface TierEstimate {
+  name: string
+  monthly_credits: number
+  assumptions: string[]
+}
+
+export interface TierResult extends ScenarioTier {
+  monthly_credits: number
+  dollar_cost: number
+  legacy_comparison: number
+  // Taken from the agent's tier estimates or scaled by the app from the basis scenario
+  source: 'agent' | 'app'
+  agent_assumptions: string[]
+}
+
+export type WarningSeverity = 'critical' | 'warning' | 'info'
+
+export interface EstimateWarning {
+  severity: WarningSeverity
+  // Stable identifier, e.g. "extreme_volume"
+  code: string
+  // The field the warning is about, when there is one
+  field: string | null
+  message: string
+  suggested_action: string | null
+  // Sent by the agent or raised by the app's own checks
+  source: 'agent' | 'app'
+}
+
+// Editable inputs behind one scenario's credits per unit of work
+export interface ScenarioParameters {
+  // How many of each rate card action one unit consumes
+  actions_per_unit: Record<string, number>
+  // Extra attempts per unit, each repeating the whole action mix
+  retries: number
+  multiplier: number
+}
+
+export interface CalculationParameters {
+  light: ScenarioParameters
+  heavy: ScenarioParameters
+}
+
+export interface Calculations {
+  per_unit_credits: number
+  monthly_total_light: number
+  monthly_total_heavy: number
+  dollar_cost_light: number
+  dollar_cost_heavy: number
+  legacy_comparison_light: number
+  legacy_comparison_heavy: number
+}
+
+// One workload within an idea, e.g. "support email reply" at 10k a month
+export interface LineItem {
+  id: string
+  unitOfWork: string
+  monthlyCount: number
+  // Count this line at one scenario in both totals instead of light and heavy
+  scenarioOverride: 'light' | 'heavy' | null
+  pricedBy: 'agent' | 'local'
+}
+
+export interface LineCalculation {
+  lineId: string
+  source: 'agent' | 'local'
+  calculation: CreditCalculation
+  // Set once someone edits the assumptions; `original` keeps the figures as first priced
+  userAdjusted?: boolean
+  original?: CreditCalculation
+  // When the figures were served from the response cache, the time the agent generated them
+  cachedAt?: string
+}
+
+// A monthly spending limit, in credits or in USD
+export interface MonthlyBudget {
+  amount: number
+  unit: 'credits' | 'usd'
+}
+
+export interface SavedEstimate {
+  id: string
+  name: string
+  businessIdea: string
+  // Summary of all line items: units joined, volumes summed
+  unitOfWork: string
+  monthlyCount: number
+  scenario: ScenarioData | null
+  lineItems: LineItem[]
+  lines: LineCalculation[]
+  // Totals across all lines
+  calculation: CreditCalculation
+  // Agent IDs the estimate was produced with, so old quotes can be traced
+  agentVersions: Record<string, string>
+  // Rate card version and plan the dollar figures were priced with
+  rateCardVersion: string
+  planId: string
+  // Set when the estimate was started from a budget rather than a volume
+  budget?: MonthlyBudget | null
+  // Local conversation (agent sessions and transcript) the estimate was produced in
+  conversationId?: string | null
+  createdAt: string
+  updatedAt: string
+}
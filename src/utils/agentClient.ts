@@ -0,0 +1,158 @@
+// Transport for talking to the Lyzr agents. The app only depends on the
+// AgentClient interface; which implementation it gets is decided by config.
+import type { AgentConfig } from '../config'
+import { AgentError } from './agentErrors'
+import { sleep } from './index'
+
+export type AgentName = 'scenarioParser' | 'creditCalculator'
+
+export interface AgentRequest {
+  agent: AgentName
+  message: string
+  userId?: string
+  sessionId?: string
+  signal?: AbortSignal
+}
+
+export interface AgentClient {
+  // Resolves with the raw response body; parsing is the caller's job
+  send(request: AgentRequest): Promise<string>
+  // Yields the response body piece by piece as it arrives
+  stream?(request: AgentRequest): AsyncIterable<string>
+}
+
+const randomId = (length: number): string => Math.random().toString(36).slice(2, 2 + length)
+
+// Session IDs let follow-up messages land in the same agent conversation
+export const createSessionId = (agent: AgentName): string => `${agent}-${randomId(12)}`
+
+export class HttpAgentClient implements AgentClient {
+  private readonly config: AgentConfig
+
+  constructor(config: AgentConfig) {
+    this.config = config
+  }
+
+  private async post(url: string, request: AgentRequest): Promise<Response> {
+    const agentId = this.config.agentIds[request.agent]
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.config.apiKey
+      },
+      body: JSON.stringify({
+        user_id: request.userId ?? `user-${randomId(9)}@app.com`,
+        agent_id: agentId,
+        session_id: request.sessionId ?? `${agentId}-${randomId(12)}`,
+        message: request.message
+      }),
+      signal: request.signal
+    })
+
+    if (!response.ok) {
+      throw new AgentError('http', `The agent service responded with status ${response.status}`, { status: response.status })
+    }
+    return response
+  }
+
+  async send(request: AgentRequest): Promise<string> {
+    const response = await this.post(this.config.baseUrl, request)
+    return response.text()
+  }
+
+  // Handles both server-sent events and plain chunked bodies
+  async *stream(request: AgentRequest): AsyncIterable<string> {
+    const response = await this.post(this.config.streamUrl, request)
+    if (!response.body) {
+      yield await response.text()
+      return
+    }
+
+    const isEventStream = response.headers.get('content-type')?.includes('text/event-stream') ?? false
+    const decoder = new TextDecoder()
+    const reader = response.body.getReader()
+    let pending = ''
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      const text = done ? decoder.decode() : decoder.decode(value, { stream: true })
+      if (!isEventStream) {
+        if (text) yield text
+      } else {
+        pending += text
+        const events = pending.split(/\r?\n\r?\n/)
+        pending = done ? '' : events.pop() ?? ''
+        for (const event of events) {
+          const data = parseEventData(event)
+          if (data === '[DONE]') return
+          if (data) yield data
+        }
+      }
+      if (done) return
+    }
+  }
+}
+
+// The data of one SSE event; multi-line data fields are joined with newlines
+function parseEventData(event: string): string {
+  return event
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(line.startsWith('data: ') ? 6 : 5))
+    .join('\n')
+}
+
+const MOCK_CHUNK_SIZE = 24
+
+// Replays recorded responses per agent, cycling when it runs out
+export class MockAgentClient implements AgentClient {
+  private readonly recordings: Record<AgentName, string[]>
+  private readonly latencyMs: number
+  private readonly cursors: Record<AgentName, number> = { scenarioParser: 0, creditCalculator: 0 }
+  readonly requests: AgentRequest[] = []
+
+  constructor(recordings: Record<AgentName, string[]>, latencyMs = 0) {
+    this.recordings = recordings
+    this.latencyMs = latencyMs
+  }
+
+  private next(request: AgentRequest): string {
+    this.requests.push(request)
+    const responses = this.recordings[request.agent]
+    if (!responses?.length) {
+      throw new Error(`No recorded responses for agent "${request.agent}"`)
+    }
+
+    const index = this.cursors[request.agent] % responses.length
+    this.cursors[request.agent]++
+    return responses[index]
+  }
+
+  async send(request: AgentRequest): Promise<string> {
+    const response = this.next(request)
+    if (this.latencyMs > 0) await sleep(this.latencyMs, request.signal)
+    request.signal?.throwIfAborted()
+    return response
+  }
+
+  // Replays the same recording in small pieces, spreading the latency across them
+  async *stream(request: AgentRequest): AsyncIterable<string> {
+    const response = this.next(request)
+    const chunks = Math.ceil(response.length / MOCK_CHUNK_SIZE)
+    for (let i = 0; i < chunks; i++) {
+      if (this.latencyMs > 0) await sleep(this.latencyMs / chunks, request.signal)
+      request.signal?.throwIfAborted()
+      yield response.slice(i * MOCK_CHUNK_SIZE, (i + 1) * MOCK_CHUNK_SIZE)
+    }
+  }
+}
+
+export async function createAgentClient(config: AgentConfig): Promise<AgentClient> {
+  if (config.backend === 'mock') {
+    // Loaded lazily so recorded fixtures stay out of the production bundle
+    const { agentRecordings } = await import('../mocks/agentRecordings')
+    return new MockAgentClient(agentRecordings, config.mockLatencyMs)
+  }
+  return new HttpAgentClient(config)
+}
@@ -0,0 +1,52 @@
+// Typed failures for agent calls, so the UI can tell the user what went wrong
+// instead of a generic "error contacting the agent"
+import type { FieldError } from './validation'
+
+export type AgentErrorCategory = 'network' | 'timeout' | 'http' | 'parse' | 'validation' | 'cancelled'
+
+export interface AgentErrorOptions {
+  status?: number
+  fieldErrors?: FieldError[]
+  cause?: unknown
+}
+
+export class AgentError extends Error {
+  readonly category: AgentErrorCategory
+  readonly status?: number
+  readonly fieldErrors?: FieldError[]
+
+  constructor(category: AgentErrorCategory, message: string, options: AgentErrorOptions = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'AgentError'
+    this.category = category
+    this.status = options.status
+    this.fieldErrors = options.fieldErrors
+  }
+
+  get retryable(): boolean {
+    if (this.category === 'http') {
+      return this.status === 429 || (this.status !== undefined && this.status >= 500)
+    }
+    return this.category === 'parse' || this.category === 'network' || this.category === 'timeout'
+  }
+}
+
+export const ERROR_CATEGORY_LABELS: Record<AgentErrorCategory, string> = {
+  network: 'Network error',
+  timeout: 'Request timed out',
+  http: 'Agent service error',
+  parse: 'Unreadable agent response',
+  validation: 'Agent returned malformed data',
+  cancelled: 'Request cancelled'
+}
+
+export function toAgentError(error: unknown): AgentError {
+  if (error instanceof AgentError) return error
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new AgentError('cancelled', 'The request was cancelled', { cause: error })
+  }
+  if (error instanceof TypeError) {
+    return new AgentError('network', 'Could not reach the agent service', { cause: error })
+  }
+  return new AgentError('network', error instanceof Error ? error.message : String(error), { cause: error })
+}
@@ -0,0 +1,155 @@
+// Timeout, retry and cancellation policy around a single agent call
+import type { RetryPolicy } from '../config'
+import type { AgentClient, AgentRequest } from './agentClient'
+import { AgentError, toAgentError } from './agentErrors'
+import { sleep } from './index'
+import parseLLMJson, { IncrementalJsonParser, type Result } from './jsonParser'
+
+export interface AgentRequestOptions {
+  timeoutMs: number
+  retry: RetryPolicy
+  onRetry?: (attempt: number, error: AgentError) => void
+  // Read the response as a stream when the client supports it
+  streaming?: boolean
+  // Called whenever the response received so far parses into something new
+  onPartial?: (partial: StreamProgress) => void
+  // Sees every raw response and how it parsed, for the developer panel
+  onResponse?: (exchange: AgentExchange) => void
+}
+
+export interface AgentExchange {
+  agent: AgentRequest['agent']
+  attempt: number
+  message: string
+  raw: string
+  parsed: Result<unknown>
+  receivedAt: string
+}
+
+export interface StreamProgress {
+  agent: AgentRequest['agent']
+  receivedChars: number
+  // The result object as far as it can be parsed, or null before the first field
+  result: unknown
+}
+
+export interface ParsedAgentResponse {
+  result: unknown
+  confidence: number
+  metadata: Record<string, unknown>
+}
+
+export const STRICT_JSON_REMINDER =
+  'Your previous reply could not be parsed. Respond with a single valid JSON object only, with no markdown fences or commentary.'
+
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const exponential = policy.baseDelayMs * 2 ** attempt
+  const jitter = Math.random() * policy.baseDelayMs
+  return Math.min(exponential + jitter, policy.maxDelayMs)
+}
+
+async function readStream(
+  stream: AsyncIterable<string>,
+  agent: AgentRequest['agent'],
+  onPartial?: (partial: StreamProgress) => void
+): Promise<string> {
+  const parser = new IncrementalJsonParser()
+  let lastEmitted = ''
+  for await (const chunk of stream) {
+    const parsed = parser.push(chunk)
+    if (!onPartial || !parsed.success) continue
+    const result = unwrapResult(parsed.data)
+    const snapshot = JSON.stringify(result)
+    if (snapshot === lastEmitted) continue
+    lastEmitted = snapshot
+    onPartial({ agent, receivedChars: parser.text.length, result })
+  }
+  return parser.text
+}
+
+// One attempt, aborted by either the caller's signal or the timeout
+async function attempt(
+  client: AgentClient,
+  request: AgentRequest,
+  options: AgentRequestOptions
+): Promise<string> {
+  const { timeoutMs, streaming, onPartial } = options
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+  const forwardAbort = () => controller.abort(request.signal?.reason)
+  request.signal?.addEventListener('abort', forwardAbort, { once: true })
+
+  try {
+    const signalled = { ...request, signal: controller.signal }
+    if (streaming && client.stream) {
+      return await readStream(client.stream(signalled), request.agent, onPartial)
+    }
+    return await client.send(signalled)
+  } catch (error) {
+    if (timedOut) {
+      throw new AgentError('timeout', `The ${request.agent} agent did not respond within ${Math.ceil(timeoutMs / 1000)}s`, { cause: error })
+    }
+    if (request.signal?.aborted) {
+      throw new AgentError('cancelled', 'The request was cancelled', { cause: error })
+    }
+    throw toAgentError(error)
+  } finally {
+    clearTimeout(timer)
+    request.signal?.removeEventListener('abort', forwardAbort)
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const unwrapResult = (data: unknown): unknown =>
+  isRecord(data) ? data.result ?? data : data
+
+function interpret(parsed: Result<unknown>): ParsedAgentResponse {
+  if (!parsed.success) {
+    throw new AgentError('parse', `The agent response did not contain valid JSON: ${parsed.error}`)
+  }
+
+  const data = parsed.data
+  if (!isRecord(data)) return { result: data, confidence: 0, metadata: {} }
+  return {
+    result: unwrapResult(data),
+    confidence: typeof data.confidence === 'number' ? data.confidence : 0,
+    metadata: isRecord(data.metadata) ? data.metadata : {}
+  }
+}
+
+export async function requestAgent(
+  client: AgentClient,
+  request: AgentRequest,
+  options: AgentRequestOptions
+): Promise<ParsedAgentResponse> {
+  const { retry, onRetry, onResponse } = options
+  let message = request.message
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    try {
+      const raw = await attempt(client, { ...request, message }, options)
+      const parsed = parseLLMJson(raw, { trace: true })
+      onResponse?.({ agent: request.agent, attempt: attemptIndex + 1, message, raw, parsed, receivedAt: new Date().toISOString() })
+      return interpret(parsed)
+    } catch (caught) {
+      const error = toAgentError(caught)
+      if (!error.retryable || attemptIndex >= retry.maxRetries) throw error
+
+      // A parse failure gets a second chance with an explicit JSON-only instruction
+      if (error.category === 'parse' && message === request.message) {
+        message = `${request.message}\n\n${STRICT_JSON_REMINDER}`
+      }
+
+      onRetry?.(attemptIndex + 1, error)
+      await sleep(backoffDelay(attemptIndex, retry), request.signal).catch(() => {
+        throw new AgentError('cancelled', 'The request was cancelled')
+      })
+    }
+  }
+}
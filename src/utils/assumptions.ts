@@ -0,0 +1,104 @@
+// Structured, editable assumptions. Each scenario's credits per unit come from
+// an action mix priced on the rate card, repeated for retries and scaled by a
+// multiplier, so changing any of them reprices the line locally.
+import { perUnitCredits } from './creditEngine'
+import { deriveRates } from './projection'
+import { priceCalculations, type RateCard } from './rateCard'
+import type { CalculationParameters, CreditCalculation, LineCalculation, LineItem, ScenarioParameters } from '../types'
+
+export type ScenarioName = keyof CalculationParameters
+
+const round = (value: number): number => Math.round(value * 10_000) / 10_000
+
+export function standardParameters(card: RateCard): CalculationParameters {
+  return {
+    light: { actions_per_unit: { ...card.actionMix }, retries: 0, multiplier: 1 },
+    heavy: { actions_per_unit: { ...card.actionMix }, retries: 0, multiplier: card.heavyMultiplier }
+  }
+}
+
+export const scenarioUnitCredits = (parameters: ScenarioParameters, card: RateCard): number =>
+  round(perUnitCredits(card.actionCosts, parameters.actions_per_unit) * (1 + parameters.retries) * parameters.multiplier)
+
+const pricesOn = (parameters: CalculationParameters, card: RateCard): boolean =>
+  [parameters.light, parameters.heavy].every((scenario) =>
+    Object.keys(scenario.actions_per_unit).every((action) => action in card.actionCosts))
+
+// The parameters the agent sent, when every action they name is on the rate card
+export const agentParameters = (calculation: CreditCalculation, card: RateCard): CalculationParameters | undefined =>
+  calculation.parameters && pricesOn(calculation.parameters, card) ? calculation.parameters : undefined
+
+// The agent's own parameters when it sent usable ones. Otherwise the standard mix,
+// with multipliers chosen so the parameters reproduce the agent's figures.
+export function parametersFor(calculation: CreditCalculation, card: RateCard): CalculationParameters {
+  const sent = agentParameters(calculation, card)
+  if (sent) return sent
+
+  const standard = standardParameters(card)
+  const base = perUnitCredits(card.actionCosts, card.actionMix)
+  const { perUnitCredits: light, heavyMultiplier } = deriveRates(calculation.calculations)
+  if (base <= 0 || light <= 0) return standard
+  return {
+    light: { ...standard.light, multiplier: round(light / base) },
+    heavy: { ...standard.heavy, multiplier: round((light * heavyMultiplier) / base) }
+  }
+}
+
+// Reprices one line from edited parameters, keeping the agent's notes
+export function applyParameters(
+  item: LineItem,
+  calculation: CreditCalculation,
+  parameters: CalculationParameters,
+  card: RateCard,
+  planId: string
+): CreditCalculation {
+  const light = scenarioUnitCredits(parameters.light, card)
+  const heavy = scenarioUnitCredits(parameters.heavy, card)
+  return {
+    ...calculation,
+    parameters,
+    // The agent's tier figures no longer hold once its assumptions change
+    tier_estimates: undefined,
+    calculations: priceCalculations({
+      per_unit_credits: light,
+      monthly_total_light: round(light * item.monthlyCount),
+      monthly_total_heavy: round(heavy * item.monthlyCount),
+      dollar_cost_light: 0,
+      dollar_cost_heavy: 0,
+      legacy_comparison_light: 0,
+      legacy_comparison_heavy: 0
+    }, card, planId)
+  }
+}
+
+export function adjustLine(
+  item: LineItem,
+  line: LineCalculation,
+  scenario: ScenarioName,
+  parameters: ScenarioParameters,
+  card: RateCard,
+  planId: string
+): LineCalculation {
+  const next = { ...parametersFor(line.calculation, card), [scenario]: parameters }
+  return {
+    ...line,
+    userAdjusted: true,
+    original: line.original ?? line.calculation,
+    calculation: applyParameters(item, line.calculation, next, card, planId)
+  }
+}
+
+export const resetLine = (line: LineCalculation): LineCalculation =>
+  line.original ? { lineId: line.lineId, source: line.source, calculation: line.original } : line
+
+export const isUserAdjusted = (lines: LineCalculation[]): boolean => lines.some((line) => line.userAdjusted)
+
+export const assumptionsSource = (lines: LineCalculation[]): string =>
+  isUserAdjusted(lines) ? 'user-adjusted' : 'agent-generated'
+
+export const describeParameters = (parameters: ScenarioParameters): string =>
+  [
+    ...Object.entries(parameters.actions_per_unit).map(([action, count]) => `${count} × ${action.replace(/_/g, ' ')}`),
+    `${parameters.retries} retries`,
+    `${parameters.multiplier}x multiplier`
+  ].join(', ')
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { queuedResult, toBatchCsv, type BatchResult } from './batch'
+import { createFormatter, DEFAULT_LOCALE_SETTINGS } from './locale'
+import { DEFAULT_RATE_CARD } from './rateCard'
+import { EXTENDED_SCENARIO_TIERS, priceTiers } from './scenarios'
+import { localEstimate } from '../test/estimates'
+import type { NewEstimate } from './estimateRepository'
+import type { Calculations, ScenarioTier } from '../types'
+
+const calculations: Calculations = {
+  per_unit_credits: 10,
+  monthly_total_light: 100_000,
+  monthly_total_heavy: 300_000,
+  dollar_cost_light: 950,
+  dollar_cost_heavy: 2850,
+  legacy_comparison_light: 10_000_000,
+  legacy_comparison_heavy: 30_000_000
+}
+
+const row = { id: 'row-1', line: 1, businessIdea: 'Triage support email', unitOfWork: 'one email', monthlyCount: 10_000 }
+
+// An estimate for `row` priced with the given tiers on fixed calculations
+const estimateWith = (scenarioTiers: ScenarioTier[]): NewEstimate => {
+  const estimate = localEstimate(row.businessIdea, row.unitOfWork, row.monthlyCount)
+  const tiers = priceTiers(scenarioTiers, calculations, [], DEFAULT_RATE_CARD, 'payg')
+  return { ...estimate, calculation: { ...estimate.calculation, calculations, warnings: [], tiers } }
+}
+
+describe('batch CSV', () => {
+  it('writes a credits and cost column set for every tier', () => {
+    const done: BatchResult = { ...queuedResult(row), status: 'done', estimate: estimateWith(EXTENDED_SCENARIO_TIERS) }
+    const failed: BatchResult = { ...queuedResult({ ...row, id: 'row-2', line: 2 }), status: 'failed', error: 'Agent service error' }
+
+    const [header, first, second] = toBatchCsv([done, failed], createFormatter(DEFAULT_LOCALE_SETTINGS)).split('\r\n')
+
+    expect(header).toBe(
+      'row,business_idea,unit_of_work,monthly_count,status,per_unit_credits,' +
+        'pilot_monthly_credits,pilot_dollar_cost,pilot_cost_usd,typical_monthly_credits,typical_dollar_cost,typical_cost_usd,' +
+        'peak_monthly_credits,peak_dollar_cost,peak_cost_usd,worst_case_monthly_credits,worst_case_dollar_cost,worst_case_cost_usd,' +
+        'top_warning,error'
+    )
+    expect(first).toBe('1,Triage support email,one email,10000,done,10,25000,250,250,100000,950,950,300000,2850,2850,600000,5700,5700,,')
+    expect(second).toBe('2,Triage support email,one email,10000,failed,,,,,,,,,,,,,,,Agent service error')
+  })
+
+  it('gives tiers whose names share a column prefix their own columns', () => {
+    const tiers: ScenarioTier[] = [
+      { id: 'peak', label: 'Peak', basis: 'heavy', multiplier: 1, assumptions: [] },
+      { id: 'peak-urgent', label: 'Peak!', basis: 'heavy', multiplier: 2, assumptions: [] }
+    ]
+    const done: BatchResult = { ...queuedResult(row), status: 'done', estimate: estimateWith(tiers) }
+
+    const [header, first] = toBatchCsv([done], createFormatter(DEFAULT_LOCALE_SETTINGS)).split('\r\n')
+
+    expect(header).toBe(
+      'row,business_idea,unit_of_work,monthly_count,status,per_unit_credits,' +
+        'peak_monthly_credits,peak_dollar_cost,peak_cost_usd,peak_2_monthly_credits,peak_2_dollar_cost,peak_2_cost_usd,top_warning,error'
+    )
+    expect(first).toBe('1,Triage support email,one email,10000,done,10,300000,2850,2850,600000,5700,5700,,')
+  })
+})
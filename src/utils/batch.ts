@@ -0,0 +1,200 @@
+// Batch estimation: a CSV or JSON file of ideas, each run through the full agent
+// pipeline with a limit on how many run at once
+import { csvCell } from './exporters'
+import { tiersOf } from './scenarios'
+import { sortWarnings } from './warnings'
+import { coerceNumber, normalizeKeys, type FieldError, type ValidationResult } from './validation'
+import type { NewEstimate } from './estimateRepository'
+import type { Formatter } from './locale'
+import type { IdeaInput, PipelineStage } from './pipeline'
+import type { ScenarioTier } from '../types'
+
+export const MAX_BATCH_ROWS = 200
+
+export interface BatchRow extends IdeaInput {
+  id: string
+  // Row number in the uploaded file, for error messages and the results table
+  line: number
+}
+
+export type BatchStatus = 'queued' | PipelineStage | 'done' | 'failed'
+
+export interface BatchResult {
+  row: BatchRow
+  status: BatchStatus
+  estimate: NewEstimate | null
+  error: string | null
+  attempts: number
+}
+
+const COLUMNS: Record<keyof IdeaInput, string[]> = {
+  businessIdea: ['business_idea', 'idea', 'use_case', 'description'],
+  unitOfWork: ['unit_of_work', 'unit'],
+  monthlyCount: ['monthly_count', 'count', 'monthly_volume', 'volume']
+}
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length) rows.push([...row, field])
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+const csvRecords = (text: string): Record<string, unknown>[] => {
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  return rows.map((cells) => Object.fromEntries(header.map((name, i) => [name.trim(), cells[i] ?? ''])))
+}
+
+const jsonRecords = (text: string): unknown[] | null => {
+  const data: unknown = JSON.parse(text)
+  if (Array.isArray(data)) return data
+  if (typeof data === 'object' && data !== null && Array.isArray((data as { rows?: unknown }).rows)) {
+    return (data as { rows: unknown[] }).rows
+  }
+  return null
+}
+
+const pick = (record: Record<string, unknown>, field: keyof IdeaInput): unknown =>
+  COLUMNS[field].map((name) => record[name]).find((value) => value !== undefined && value !== '')
+
+const newRowId = (line: number): string => `row-${line}-${Math.random().toString(36).slice(2, 8)}`
+
+// Rows are validated up front so a bad file is rejected before any agent is called
+export function parseBatchFile(text: string, fileName: string): ValidationResult<BatchRow[]> {
+  let records: unknown[] | null
+  try {
+    records = /\.json$/i.test(fileName) || text.trimStart().startsWith('[') || text.trimStart().startsWith('{')
+      ? jsonRecords(text)
+      : csvRecords(text)
+  } catch {
+    return { ok: false, errors: [{ path: 'file', message: 'is not valid JSON' }] }
+  }
+  if (!records) return { ok: false, errors: [{ path: 'file', message: 'must be a list of rows or an object with a "rows" list' }] }
+  if (!records.length) return { ok: false, errors: [{ path: 'file', message: 'has no rows' }] }
+  if (records.length > MAX_BATCH_ROWS) {
+    return { ok: false, errors: [{ path: 'file', message: `has ${records.length} rows; the limit is ${MAX_BATCH_ROWS}` }] }
+  }
+
+  const errors: FieldError[] = []
+  const rows = records.map((raw, i): BatchRow => {
+    const line = i + 1
+    const record = typeof raw === 'object' && raw !== null && !Array.isArray(raw) ? normalizeKeys(raw as Record<string, unknown>) : {}
+    const text = (field: keyof IdeaInput) => {
+      const value = pick(record, field)
+      if (typeof value === 'string' && value.trim()) return value.trim()
+      errors.push({ path: `rows[${line}].${COLUMNS[field][0]}`, message: 'is missing' })
+      return ''
+    }
+    const businessIdea = text('businessIdea')
+    const unitOfWork = text('unitOfWork')
+    const monthlyCount = coerceNumber(pick(record, 'monthlyCount'))
+    if (monthlyCount === null || monthlyCount <= 0) {
+      errors.push({ path: `rows[${line}].monthly_count`, message: 'must be a positive number' })
+    }
+    return { id: newRowId(line), line, businessIdea, unitOfWork, monthlyCount: monthlyCount ?? 0 }
+  })
+
+  return errors.length ? { ok: false, errors } : { ok: true, value: rows }
+}
+
+export const queuedResult = (row: BatchRow): BatchResult => ({ row, status: 'queued', estimate: null, error: null, attempts: 0 })
+
+// Runs `worker` over the items, at most `limit` at a time. The worker handles its own
+// failures; a cancelled signal stops new items from starting.
+export async function runPool<T>(items: T[], limit: number, worker: (item: T) => Promise<void>, signal?: AbortSignal): Promise<void> {
+  let next = 0
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane))
+}
+
+// Snake-case column prefix for a tier, from its name
+const tierColumn = (tier: ScenarioTier): string => tier.label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || tier.id
+
+// Tier labels such as "Peak" and "Peak!" slug to the same prefix, so later ones get a numeric suffix
+const tierColumns = (tiers: ScenarioTier[]): string[] => {
+  const used = new Set<string>()
+  return tiers.map((tier) => {
+    const base = tierColumn(tier)
+    let prefix = base
+    for (let n = 2; used.has(prefix); n++) prefix = `${base}_${n}`
+    used.add(prefix)
+    return prefix
+  })
+}
+
+// One credits, dollar and local-currency column set per tier. Rows are matched to
+// columns by tier id, in the order the tiers first appear across the batch.
+export function toBatchCsv(results: BatchResult[], format: Formatter): string {
+  const currency = format.settings.currency.toLowerCase()
+  const tiers = new Map<string, ScenarioTier>()
+  for (const { estimate } of results) {
+    for (const tier of estimate ? tiersOf(estimate.calculation) : []) {
+      if (!tiers.has(tier.id)) tiers.set(tier.id, tier)
+    }
+  }
+  const header = [
+    'row',
+    'business_idea',
+    'unit_of_work',
+    'monthly_count',
+    'status',
+    'per_unit_credits',
+    ...tierColumns([...tiers.values()]).flatMap((prefix) => [`${prefix}_monthly_credits`, `${prefix}_dollar_cost`, `${prefix}_cost_${currency}`]),
+    'top_warning',
+    'error'
+  ]
+  const rate = format.settings.exchangeRates[format.settings.currency] ?? 1
+  const rows = results.map(({ row, status, estimate, error }) => {
+    const priced = estimate ? tiersOf(estimate.calculation) : []
+    const [warning] = estimate ? sortWarnings(estimate.calculation.warnings) : []
+    return [
+      row.line,
+      row.businessIdea,
+      row.unitOfWork,
+      row.monthlyCount,
+      status,
+      estimate?.calculation.calculations.per_unit_credits ?? '',
+      ...[...tiers.keys()].flatMap((id): (string | number)[] => {
+        const tier = priced.find((t) => t.id === id)
+        return tier ? [tier.monthly_credits, tier.dollar_cost, Math.round(tier.dollar_cost * rate * 100) / 100] : ['', '', '']
+      }),
+      warning?.message ?? '',
+      error ?? ''
+    ]
+  })
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,87 @@
+// Budget mode: given a monthly budget, how many units of work fit under it,
+// and how much is left over at the volume the customer expects.
+import { dollarCost, volumeDiscountPercent, type VolumeDiscount } from './creditEngine'
+import { deriveRates } from './projection'
+import { findPlan, type RateCard } from './rateCard'
+import type { Calculations, MonthlyBudget } from '../types'
+
+export interface BudgetRates {
+  perUnitCredits: number
+  heavyMultiplier: number
+  creditPriceUsd: number
+  volumeDiscounts: VolumeDiscount[]
+}
+
+export interface ScenarioBudget {
+  // Most whole units per month the budget covers
+  maxUnits: number
+  creditsAtMax: number
+  costAtMax: number
+  // At the expected volume; negative when the budget is exceeded
+  headroom: number | null
+  headroomFraction: number | null
+}
+
+export interface BudgetAnalysis {
+  light: ScenarioBudget
+  heavy: ScenarioBudget
+}
+
+// Per-unit credits and the heavy/light ratio come from the calculation; the
+// price and discounts from the rate card it was priced under
+export function budgetRates(calculations: Calculations, card: RateCard, planId: string): BudgetRates {
+  const { perUnitCredits, heavyMultiplier } = deriveRates(calculations)
+  return {
+    perUnitCredits,
+    heavyMultiplier,
+    creditPriceUsd: findPlan(card, planId).creditPriceUsd,
+    volumeDiscounts: card.volumeDiscounts
+  }
+}
+
+// Most credits a dollar budget buys. Discounts are not monotonic in cost (crossing a
+// threshold makes every credit cheaper), so each discount band is solved separately.
+export function maxCreditsForBudget(budgetUsd: number, creditPriceUsd: number, discounts: VolumeDiscount[]): number {
+  if (budgetUsd <= 0) return 0
+  if (creditPriceUsd <= 0) return Infinity
+
+  const thresholds = [0, ...discounts.map((tier) => tier.minMonthlyCredits).filter((min) => min > 0)]
+    .sort((a, b) => a - b)
+    .filter((min, i, all) => i === 0 || min !== all[i - 1])
+
+  let best = 0
+  thresholds.forEach((lower, i) => {
+    const upper = thresholds[i + 1] ?? Infinity
+    const discount = volumeDiscountPercent(lower, discounts) / 100
+    const affordable = budgetUsd / (creditPriceUsd * (1 - discount))
+    if (affordable >= lower) best = Math.max(best, Math.min(affordable, upper))
+  })
+  return best
+}
+
+function analyseScenario(budget: MonthlyBudget, creditsPerUnit: number, rates: BudgetRates, expectedVolume: number | null): ScenarioBudget {
+  const maxCredits = budget.unit === 'credits'
+    ? budget.amount
+    : maxCreditsForBudget(budget.amount, rates.creditPriceUsd, rates.volumeDiscounts)
+  const maxUnits = creditsPerUnit > 0 ? Math.floor(maxCredits / creditsPerUnit + 1e-9) : Infinity
+  const creditsAt = (units: number) => units * creditsPerUnit
+  const spend = (credits: number) =>
+    budget.unit === 'credits' ? credits : dollarCost(credits, rates.creditPriceUsd, rates.volumeDiscounts)
+
+  const creditsAtMax = Number.isFinite(maxUnits) ? creditsAt(maxUnits) : 0
+  const used = expectedVolume === null ? null : spend(creditsAt(expectedVolume))
+  return {
+    maxUnits,
+    creditsAtMax,
+    costAtMax: dollarCost(creditsAtMax, rates.creditPriceUsd, rates.volumeDiscounts),
+    headroom: used === null ? null : budget.amount - used,
+    headroomFraction: used === null || budget.amount <= 0 ? null : (budget.amount - used) / budget.amount
+  }
+}
+
+export function analyseBudget(budget: MonthlyBudget, rates: BudgetRates, expectedVolume: number | null): BudgetAnalysis {
+  return {
+    light: analyseScenario(budget, rates.perUnitCredits, rates, expectedVolume),
+    heavy: analyseScenario(budget, rates.perUnitCredits * rates.heavyMultiplier, rates, expectedVolume)
+  }
+}
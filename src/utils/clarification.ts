@@ -0,0 +1,41 @@
+// Helpers for the clarification round-trip with the ScenarioParser agent
+import type { ScenarioData } from '../types'
+
+export const MAX_CLARIFICATION_ROUNDS = 3
+
+export interface Clarification {
+  question: string
+  // null means the user accepted whatever default the agent applied
+  answer: string | null
+}
+
+const normalize = (question: string): string => question.trim().toLowerCase()
+
+// Questions from the latest scenario that have not been put to the user yet
+export function pendingQuestions(scenario: ScenarioData, answered: Clarification[]): string[] {
+  const seen = new Set(answered.map((c) => normalize(c.question)))
+  return scenario.questions_asked.filter((q) => q.trim() && !seen.has(normalize(q)))
+}
+
+// Pass the business idea when the scenario came from the response cache: that
+// session has not seen the idea, so the answers need it for context
+export function buildClarificationMessage(round: Clarification[], businessIdea?: string): string {
+  const lines = round.map((c, i) =>
+    c.answer?.trim()
+      ? `${i + 1}. ${c.question}\n   Answer: ${c.answer.trim()}`
+      : `${i + 1}. ${c.question}\n   Answer: no preference, keep your default`
+  )
+  return [
+    ...(businessIdea ? [`Business idea: ${businessIdea}`] : []),
+    'Here are my answers to your questions:',
+    ...lines,
+    'Update the scenario with these answers. Only ask further questions if something essential is still unclear.'
+  ].join('\n')
+}
+
+export function userResponses(clarifications: Clarification[]): string[] {
+  return clarifications.flatMap((c) => {
+    const answer = c.answer?.trim()
+    return answer ? [`${c.question} ${answer}`] : []
+  })
+}
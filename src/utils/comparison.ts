@@ -0,0 +1,76 @@
+// Side-by-side comparison of saved estimates
+import { tiersOf } from './scenarios'
+import type { Calculations, SavedEstimate } from '../types'
+
+export const MIN_COMPARE = 2
+export const MAX_COMPARE = 5
+
+export interface ComparisonMetric {
+  field: keyof Calculations
+  label: string
+  unit: 'credits' | 'usd'
+}
+
+// Monthly figures are compared per scenario tier, see compareTiers
+export const COMPARISON_METRICS: ComparisonMetric[] = [
+  { field: 'per_unit_credits', label: 'Credits per unit', unit: 'credits' }
+]
+
+export interface TierComparison {
+  label: string
+  // Per estimate; null where the estimate was not reported in this tier
+  credits: (number | null)[]
+  costs: (number | null)[]
+  deltas: (number | null)[]
+}
+
+export interface ListDiff {
+  // Items every estimate has in common
+  shared: string[]
+  // Per estimate, the items only some estimates have
+  distinct: string[][]
+}
+
+const normalize = (item: string): string => item.trim().toLowerCase()
+
+export function diffLists(lists: string[][]): ListDiff {
+  const sets = lists.map((list) => new Set(list.map(normalize)))
+  const isShared = (item: string) => sets.every((set) => set.has(normalize(item)))
+  const shared = lists.length ? lists[0].filter(isShared) : []
+  return {
+    shared,
+    distinct: lists.map((list) => list.filter((item) => !isShared(item)))
+  }
+}
+
+// Relative change of each estimate against the first (the baseline)
+export function deltaFromBaseline(values: (number | null)[]): (number | null)[] {
+  const [baseline] = values
+  return values.map((value, i) => {
+    if (i === 0 || !baseline || value === null) return null
+    return (value - baseline) / baseline
+  })
+}
+
+// Estimates may use different tier sets; tiers are matched by name, in the order they first appear
+export function compareTiers(estimates: SavedEstimate[]): TierComparison[] {
+  const tierLists = estimates.map((e) => tiersOf(e.calculation))
+  const labels = [...new Set(tierLists.flat().map((tier) => tier.label))]
+  return labels.map((label) => {
+    const matches = tierLists.map((tiers) => tiers.find((tier) => tier.label === label) ?? null)
+    const credits = matches.map((tier) => tier?.monthly_credits ?? null)
+    return { label, credits, costs: matches.map((tier) => tier?.dollar_cost ?? null), deltas: deltaFromBaseline(credits) }
+  })
+}
+
+export function compareEstimates(estimates: SavedEstimate[]) {
+  return {
+    metrics: COMPARISON_METRICS.map((metric) => {
+      const values = estimates.map((e) => e.calculation.calculations[metric.field])
+      return { ...metric, values, deltas: deltaFromBaseline(values) }
+    }),
+    tiers: compareTiers(estimates),
+    assumptions: diffLists(estimates.map((e) => e.calculation.assumptions)),
+    warnings: diffLists(estimates.map((e) => e.calculation.warnings.map((warning) => warning.message)))
+  }
+}
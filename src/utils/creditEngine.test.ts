@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { reconcile } from './creditEngine'
+import { reconcileLines, newLineItem } from './lineItems'
+import { DEFAULT_RATE_CARD } from './rateCard'
+import type { Calculations, CreditCalculation, LineCalculation } from '../types'
+
+// An agent answer at 4 credits per unit, not the rate card's standard 2.95
+const agent: Calculations = {
+  per_unit_credits: 4,
+  monthly_total_light: 12_000,
+  monthly_total_heavy: 36_000,
+  dollar_cost_light: 120,
+  dollar_cost_heavy: 360,
+  legacy_comparison_light: 1_200_000,
+  legacy_comparison_heavy: 3_600_000
+}
+
+// The same workload at the rate card's standard mix: 2.95 credits per unit, heavy at 3x
+const standard: Calculations = {
+  per_unit_credits: 2.95,
+  monthly_total_light: 8850,
+  monthly_total_heavy: 26_550,
+  dollar_cost_light: 88.5,
+  dollar_cost_heavy: 265.5,
+  legacy_comparison_light: 885_000,
+  legacy_comparison_heavy: 2_655_000
+}
+
+const pricing = { creditPriceUsd: 0.01, volumeDiscounts: [], legacyMultiplier: 100 }
+const fields = (calculations: Calculations, monthlyCount = 3000) =>
+  reconcile(calculations, { monthlyCount, ...pricing }).discrepancies.map((d) => d.field)
+
+describe('reconcile', () => {
+  it('checks credits against the standard mix when the agent sent no parameters', () => {
+    expect(reconcile(standard, { monthlyCount: 3000, ...pricing })).toMatchObject({ agrees: true, basis: 'standard-mix' })
+
+    // A made-up per-unit figure does not agree just because the arithmetic on it holds
+    const madeUp = reconcile(agent, { monthlyCount: 3000, ...pricing })
+    expect(madeUp).toMatchObject({ agrees: false, consistent: true })
+    expect(madeUp.discrepancies.map((d) => [d.field, d.expected])).toEqual([
+      ['per_unit_credits', 2.95],
+      ['monthly_total_light', 8850],
+      ['monthly_total_heavy', 26_550]
+    ])
+  })
+
+  it('flags totals, dollars and legacy figures that do not follow from the other agent figures', () => {
+    expect(fields(standard, 4000)).toEqual(['monthly_total_light', 'monthly_total_heavy'])
+    expect(reconcile(standard, { monthlyCount: 4000, ...pricing }).consistent).toBe(false)
+    expect(fields({ ...standard, dollar_cost_heavy: 200 })).toEqual(['dollar_cost_heavy'])
+    expect(fields({ ...standard, legacy_comparison_light: 8850 })).toEqual(['legacy_comparison_light'])
+    expect(reconcile({ ...standard, dollar_cost_heavy: 200 }, { monthlyCount: 3000, ...pricing }).consistent).toBe(false)
+  })
+
+  it('checks per-unit credits against the parameters the agent sent', () => {
+    const calculation: CreditCalculation = {
+      summary: { light_scenario: '', heavy_scenario: '' },
+      calculations: agent,
+      assumptions: [],
+      warnings: [],
+      parameters: {
+        light: { actions_per_unit: { agent_invocation: 1, llm_call: 4, tool_call: 4 }, retries: 0, multiplier: 1 },
+        heavy: { actions_per_unit: { agent_invocation: 1, llm_call: 4, tool_call: 4 }, retries: 0, multiplier: 3 }
+      }
+    }
+    const item = newLineItem('one chat', 3000)
+    const line = (parameters: CreditCalculation['parameters']): LineCalculation[] =>
+      [{ lineId: item.id, source: 'agent', calculation: { ...calculation, parameters } }]
+
+    const [matching] = reconcileLines([item], line(calculation.parameters), DEFAULT_RATE_CARD, 'payg')
+    expect(matching.reconciliation.agrees).toBe(true)
+
+    const doubled = { ...calculation.parameters!, light: { ...calculation.parameters!.light, multiplier: 2 } }
+    const [mismatch] = reconcileLines([item], line(doubled), DEFAULT_RATE_CARD, 'payg')
+    expect(mismatch.reconciliation.discrepancies.map((d) => [d.field, d.expected])).toEqual([
+      ['per_unit_credits', 8],
+      ['monthly_total_light', 24_000]
+    ])
+  })
+})
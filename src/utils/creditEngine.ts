@@ -0,0 +1,211 @@
+// Local, deterministic credit pricing, and the arithmetic checks run on the
+// numbers the CreditCalculator agent returns before anyone quotes them.
+import type { Calculations } from '../types'
+
+// Credits charged per agent action
+export type ActionCostTable = Record<string, number>
+
+// How many of each action one unit of work consumes
+export type ActionMix = Record<string, number>
+
+export const DEFAULT_ACTION_COSTS: ActionCostTable = {
+  agent_invocation: 1,
+  llm_call: 0.5,
+  tool_call: 0.25,
+  knowledge_base_query: 0.25,
+  memory_operation: 0.1
+}
+
+export const DEFAULT_ACTION_MIX: ActionMix = {
+  agent_invocation: 1,
+  llm_call: 2,
+  tool_call: 2,
+  knowledge_base_query: 1,
+  memory_operation: 2
+}
+
+// A discount off the dollar price once monthly usage reaches a threshold
+export interface VolumeDiscount {
+  minMonthlyCredits: number
+  discountPercent: number
+}
+
+export const DEFAULT_HEAVY_MULTIPLIER = 3
+export const DEFAULT_CREDIT_PRICE_USD = 0.01
+export const DEFAULT_LEGACY_MULTIPLIER = 100
+export const DEFAULT_TOLERANCE = 0.05
+
+export interface PricingInput {
+  unitOfWork: string
+  monthlyCount: number
+  actionCosts?: ActionCostTable
+  actionMix?: ActionMix
+  heavyMultiplier?: number
+  creditPriceUsd?: number
+  volumeDiscounts?: VolumeDiscount[]
+  legacyMultiplier?: number
+}
+
+export interface Discrepancy {
+  field: keyof Calculations
+  agent: number
+  expected: number
+  relativeDiff: number
+}
+
+// What the agent's figures are checked against. Credits per unit come from the
+// agent's structured parameters when it sent them, otherwise from the rate card's
+// standard action mix and heavy multiplier.
+export interface ReconciliationInput {
+  monthlyCount: number
+  unitCredits?: { light: number; heavy: number }
+  actionCosts?: ActionCostTable
+  actionMix?: ActionMix
+  heavyMultiplier?: number
+  creditPriceUsd?: number
+  volumeDiscounts?: VolumeDiscount[]
+  legacyMultiplier?: number
+}
+
+export interface Reconciliation {
+  expected: Calculations
+  discrepancies: Discrepancy[]
+  agrees: boolean
+  // Whether the agent's figures follow from one another, whatever its per-unit credits
+  consistent: boolean
+  basis: 'parameters' | 'standard-mix'
+  tolerance: number
+}
+
+const round = (value: number, digits = 4): number => {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
+
+export function perUnitCredits(actionCosts: ActionCostTable, actionMix: ActionMix): number {
+  let total = 0
+  for (const [action, count] of Object.entries(actionMix)) {
+    const cost = actionCosts[action]
+    if (cost === undefined) {
+      throw new Error(`No credit cost defined for action "${action}"`)
+    }
+    total += cost * count
+  }
+  return round(total)
+}
+
+// The deepest discount whose threshold the usage reaches; tiers do not stack
+export function volumeDiscountPercent(monthlyCredits: number, discounts: VolumeDiscount[] = []): number {
+  let percent = 0
+  for (const tier of discounts) {
+    if (monthlyCredits >= tier.minMonthlyCredits) percent = Math.max(percent, tier.discountPercent)
+  }
+  return percent
+}
+
+export function dollarCost(monthlyCredits: number, creditPriceUsd: number, discounts: VolumeDiscount[] = []): number {
+  const discount = volumeDiscountPercent(monthlyCredits, discounts) / 100
+  return round(monthlyCredits * creditPriceUsd * (1 - discount), 2)
+}
+
+// Legacy pricing credits for a credit total. Every figure that shows a legacy
+// comparison goes through here so the scenarios, tiers and exports agree.
+export const legacyCredits = (credits: number, legacyMultiplier: number): number => round(credits * legacyMultiplier)
+
+export function computeCredits(input: PricingInput): Calculations {
+  const {
+    monthlyCount,
+    actionCosts = DEFAULT_ACTION_COSTS,
+    actionMix = DEFAULT_ACTION_MIX,
+    heavyMultiplier = DEFAULT_HEAVY_MULTIPLIER,
+    creditPriceUsd = DEFAULT_CREDIT_PRICE_USD,
+    volumeDiscounts = [],
+    legacyMultiplier = DEFAULT_LEGACY_MULTIPLIER
+  } = input
+
+  if (!Number.isFinite(monthlyCount) || monthlyCount < 0) {
+    throw new Error(`Monthly count must be a non-negative number, got ${monthlyCount}`)
+  }
+
+  const perUnit = perUnitCredits(actionCosts, actionMix)
+  const light = perUnit * monthlyCount
+  const heavy = light * heavyMultiplier
+
+  return {
+    per_unit_credits: perUnit,
+    monthly_total_light: round(light),
+    monthly_total_heavy: round(heavy),
+    dollar_cost_light: dollarCost(light, creditPriceUsd, volumeDiscounts),
+    dollar_cost_heavy: dollarCost(heavy, creditPriceUsd, volumeDiscounts),
+    legacy_comparison_light: legacyCredits(light, legacyMultiplier),
+    legacy_comparison_heavy: legacyCredits(heavy, legacyMultiplier)
+  }
+}
+
+const relativeDiff = (agent: number, local: number): number => {
+  if (agent === local) return 0
+  const scale = Math.max(Math.abs(agent), Math.abs(local))
+  return scale === 0 ? 0 : Math.abs(agent - local) / scale
+}
+
+// What the agent's figures imply on their own: totals from its per-unit credits,
+// dollars and legacy credits from its totals, so each mismatch points at a single step
+function impliedCalculations(agent: Calculations, input: ReconciliationInput): Calculations {
+  const {
+    monthlyCount,
+    creditPriceUsd = DEFAULT_CREDIT_PRICE_USD,
+    volumeDiscounts = [],
+    legacyMultiplier = DEFAULT_LEGACY_MULTIPLIER
+  } = input
+  return {
+    per_unit_credits: agent.per_unit_credits,
+    monthly_total_light: round(agent.per_unit_credits * monthlyCount),
+    // The heavy scenario is the agent's call, as long as it is not below light
+    monthly_total_heavy: round(Math.max(agent.monthly_total_heavy, agent.monthly_total_light)),
+    dollar_cost_light: dollarCost(agent.monthly_total_light, creditPriceUsd, volumeDiscounts),
+    dollar_cost_heavy: dollarCost(agent.monthly_total_heavy, creditPriceUsd, volumeDiscounts),
+    legacy_comparison_light: legacyCredits(agent.monthly_total_light, legacyMultiplier),
+    legacy_comparison_heavy: legacyCredits(agent.monthly_total_heavy, legacyMultiplier)
+  }
+}
+
+// The figures the agent should have returned: credits from its parameters or the
+// standard mix, dollars and legacy credits priced from the agent's own totals
+export function expectedCalculations(agent: Calculations, input: ReconciliationInput): Calculations {
+  const { monthlyCount, unitCredits, actionCosts, actionMix, heavyMultiplier } = input
+  const standard = computeCredits({ unitOfWork: '', monthlyCount, actionCosts, actionMix, heavyMultiplier })
+
+  return {
+    ...impliedCalculations(agent, input),
+    per_unit_credits: unitCredits ? round(unitCredits.light) : standard.per_unit_credits,
+    monthly_total_light: unitCredits ? round(unitCredits.light * monthlyCount) : standard.monthly_total_light,
+    monthly_total_heavy: unitCredits ? round(unitCredits.heavy * monthlyCount) : standard.monthly_total_heavy
+  }
+}
+
+function discrepanciesFrom(agent: Calculations, expected: Calculations, tolerance: number): Discrepancy[] {
+  const discrepancies: Discrepancy[] = []
+  for (const field of Object.keys(expected) as (keyof Calculations)[]) {
+    const diff = relativeDiff(agent[field], expected[field])
+    if (!Number.isFinite(diff) || diff > tolerance) {
+      discrepancies.push({ field, agent: agent[field], expected: expected[field], relativeDiff: diff })
+    }
+  }
+  return discrepancies
+}
+
+// Compare the agent's figures with what its parameters, or the rate card's standard
+// mix, imply, field by field. Anything off by more than `tolerance` (relative) is
+// reported as a discrepancy.
+export function reconcile(agent: Calculations, input: ReconciliationInput, tolerance = DEFAULT_TOLERANCE): Reconciliation {
+  const expected = expectedCalculations(agent, input)
+  const discrepancies = discrepanciesFrom(agent, expected, tolerance)
+  return {
+    expected,
+    discrepancies,
+    agrees: discrepancies.length === 0,
+    consistent: discrepanciesFrom(agent, impliedCalculations(agent, input), tolerance).length === 0,
+    basis: input.unitCredits ? 'parameters' : 'standard-mix',
+    tolerance
+  }
+}
@@ -0,0 +1,105 @@
+// Persistence for saved estimates. The interface is async so the localStorage
+// implementation can be swapped for IndexedDB without touching callers.
+import type { SavedEstimate } from '../types'
+import { DEFAULT_RATE_CARD } from './rateCard'
+import { withLineItems } from './lineItems'
+import { withStructuredWarnings } from './warnings'
+
+export type NewEstimate = Omit<SavedEstimate, 'id' | 'createdAt' | 'updatedAt'>
+
+export interface EstimateRepository {
+  list(): Promise<SavedEstimate[]>
+  get(id: string): Promise<SavedEstimate | null>
+  create(estimate: NewEstimate): Promise<SavedEstimate>
+  update(id: string, changes: Partial<NewEstimate>): Promise<SavedEstimate>
+  duplicate(id: string): Promise<SavedEstimate>
+  remove(id: string): Promise<void>
+}
+
+const STORAGE_KEY = 'lyzr-credit-estimator:estimates'
+const STORAGE_VERSION = 1
+
+interface StoredEstimates {
+  version: number
+  estimates: SavedEstimate[]
+}
+
+const newId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `est-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+export class LocalStorageEstimateRepository implements EstimateRepository {
+  private readonly storage: Storage
+  private readonly key: string
+
+  constructor(storage: Storage = window.localStorage, key = STORAGE_KEY) {
+    this.storage = storage
+    this.key = key
+  }
+
+  private read(): SavedEstimate[] {
+    const raw = this.storage.getItem(this.key)
+    if (!raw) return []
+    try {
+      const stored = JSON.parse(raw) as StoredEstimates
+      if (!Array.isArray(stored.estimates)) return []
+      // Estimates saved before rate cards existed were priced with the built-in card
+      return stored.estimates.map((estimate) => withStructuredWarnings(withLineItems({
+        ...estimate,
+        rateCardVersion: estimate.rateCardVersion ?? DEFAULT_RATE_CARD.version,
+        planId: estimate.planId ?? DEFAULT_RATE_CARD.defaultPlanId
+      })))
+    } catch (error) {
+      console.error('Saved estimates are unreadable, starting fresh:', error)
+      return []
+    }
+  }
+
+  private write(estimates: SavedEstimate[]): void {
+    const stored: StoredEstimates = { version: STORAGE_VERSION, estimates }
+    this.storage.setItem(this.key, JSON.stringify(stored))
+  }
+
+  private find(estimates: SavedEstimate[], id: string): SavedEstimate {
+    const estimate = estimates.find((e) => e.id === id)
+    if (!estimate) throw new Error(`No saved estimate with id "${id}"`)
+    return estimate
+  }
+
+  async list(): Promise<SavedEstimate[]> {
+    return this.read().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }
+
+  async get(id: string): Promise<SavedEstimate | null> {
+    return this.read().find((e) => e.id === id) ?? null
+  }
+
+  async create(estimate: NewEstimate): Promise<SavedEstimate> {
+    const now = new Date().toISOString()
+    const saved: SavedEstimate = { ...estimate, id: newId(), createdAt: now, updatedAt: now }
+    this.write([...this.read(), saved])
+    return saved
+  }
+
+  async update(id: string, changes: Partial<NewEstimate>): Promise<SavedEstimate> {
+    const estimates = this.read()
+    const updated = { ...this.find(estimates, id), ...changes, updatedAt: new Date().toISOString() }
+    this.write(estimates.map((e) => (e.id === id ? updated : e)))
+    return updated
+  }
+
+  async duplicate(id: string): Promise<SavedEstimate> {
+    const source = this.find(this.read(), id)
+    const now = new Date().toISOString()
+    const copy: SavedEstimate = { ...source, id: newId(), name: `${source.name} (copy)`, createdAt: now, updatedAt: now }
+    this.write([...this.read(), copy])
+    return copy
+  }
+
+  async remove(id: string): Promise<void> {
+    this.write(this.read().filter((e) => e.id !== id))
+  }
+}
+
+export const estimateRepository: EstimateRepository = new LocalStorageEstimateRepository()
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { parseJsonDocument, toHtmlReport, toJsonDocument, toMarkdown } from './exporters'
+import { createFormatter, DEFAULT_LOCALE_SETTINGS } from './locale'
+import { DEFAULT_RATE_CARD } from './rateCard'
+import { validationWarning } from './warnings'
+import { localEstimate } from '../test/estimates'
+
+const format = createFormatter(DEFAULT_LOCALE_SETTINGS)
+
+describe('report exports', () => {
+  it("ends with the disclaimer of the estimate's rate card", () => {
+    const estimate = localEstimate('Triage support email', 'one email', 10_000)
+
+    expect(toMarkdown(estimate)).toContain(`_${DEFAULT_RATE_CARD.disclaimer}_`)
+    expect(toMarkdown(estimate, format, 'Prices exclude VAT & model tokens.')).toContain('_Prices exclude VAT & model tokens._')
+    expect(toHtmlReport(estimate, format, 'Prices exclude VAT & model tokens.')).toContain('<p class="muted">Prices exclude VAT &amp; model tokens.</p>')
+    expect(toHtmlReport(estimate, format, '')).not.toContain('model tokens')
+  })
+})
+
+describe('JSON documents', () => {
+  it('keep the app warnings the app raised', () => {
+    const estimate = localEstimate('Triage support email', 'one email', 10_000)
+    const warned = { ...estimate, calculation: { ...estimate.calculation, warnings: [validationWarning('CreditCalculator', [])] } }
+
+    const imported = parseJsonDocument(toJsonDocument(warned))
+    expect(imported.ok && imported.estimate.calculation.warnings.map((w) => [w.code, w.source])).toEqual([['validation_failed', 'app']])
+  })
+})
@@ -0,0 +1,353 @@
+// Export an estimate as CSV, Markdown, a print-ready HTML report or a
+// versioned JSON document that can be imported again
+import type { NewEstimate } from './estimateRepository'
+import { validateCreditCalculation, validateScenarioData, type FieldError } from './validation'
+import { DEFAULT_RATE_CARD } from './rateCard'
+import { createFormatter, DEFAULT_LOCALE_SETTINGS, type Formatter } from './locale'
+import { lineCredits, withLineItems } from './lineItems'
+import { assumptionsSource, describeParameters } from './assumptions'
+import { describeWarning, SEVERITY_LABELS, sortWarnings } from './warnings'
+import { describeTierBasis, tiersOf } from './scenarios'
+import type { Calculations, LineCalculation, LineItem, MonthlyBudget, TierResult } from '../types'
+
+export const EXPORT_FORMAT = 'lyzr-credit-estimate'
+export const EXPORT_VERSION = 1
+
+export interface EstimateDocument {
+  format: typeof EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  estimate: NewEstimate
+}
+
+export type ImportResult =
+  | { ok: true; estimate: NewEstimate }
+  | { ok: false; errors: FieldError[] }
+
+const CALCULATION_LABELS: Record<keyof Calculations, string> = {
+  per_unit_credits: 'Credits per unit',
+  monthly_total_light: 'Monthly credits (light)',
+  monthly_total_heavy: 'Monthly credits (heavy)',
+  dollar_cost_light: 'Monthly cost USD (light)',
+  dollar_cost_heavy: 'Monthly cost USD (heavy)',
+  legacy_comparison_light: 'Legacy pricing credits (light)',
+  legacy_comparison_heavy: 'Legacy pricing credits (heavy)'
+}
+
+const defaultFormat = createFormatter(DEFAULT_LOCALE_SETTINGS)
+
+// Share saved against legacy pricing; a tier with no legacy figure has nothing to compare
+export const legacySavings = (current: number, legacy: number, format: Formatter): string =>
+  legacy > 0 ? format.percent(1 - current / legacy) : '—'
+
+const slug = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'estimate'
+
+export const exportFilename = (estimate: NewEstimate, extension: string): string =>
+  `${slug(estimate.name)}.${extension}`
+
+const round2 = (value: number): number => Math.round(value * 100) / 100
+
+export const csvCell = (value: string | number): string => {
+  const text = String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Values stay plain numbers so spreadsheets can use them; local-currency costs
+// are added alongside the USD ones when another currency is selected
+export function toCsv(estimate: NewEstimate, format: Formatter = defaultFormat): string {
+  const { calculations } = estimate.calculation
+  const { currency } = format.settings
+  const tiers = tiersOf(estimate.calculation)
+  const rows: (string | number)[][] = [
+    ['field', 'label', 'value'],
+    ['business_idea', 'Business idea', estimate.businessIdea],
+    ['unit_of_work', 'Unit of work', estimate.unitOfWork],
+    ['monthly_count', 'Monthly volume', estimate.monthlyCount],
+    ['rate_card_version', 'Rate card version', estimate.rateCardVersion],
+    ['plan', 'Pricing plan', estimate.planId],
+    ['assumptions_source', 'Assumptions', assumptionsSource(estimate.lines)],
+    ...(Object.keys(CALCULATION_LABELS) as (keyof Calculations)[]).map((field) => [
+      field,
+      CALCULATION_LABELS[field],
+      calculations[field]
+    ]),
+    ...tiers.flatMap((tier, i) => {
+      const prefix = `tier_${i + 1}`
+      const notes = tierNotes(tier)
+      return [
+        [`${prefix}_name`, `Tier ${i + 1} name`, tier.label],
+        [`${prefix}_scales`, `Tier ${i + 1} scales`, tier.source === 'agent' ? 'agent estimate' : describeTierBasis(tier)],
+        [`${prefix}_monthly_credits`, `Monthly credits (${tier.label})`, tier.monthly_credits],
+        [`${prefix}_dollar_cost`, `Monthly cost USD (${tier.label})`, tier.dollar_cost],
+        [`${prefix}_legacy_comparison`, `Legacy pricing credits (${tier.label})`, tier.legacy_comparison],
+        ...(notes.length ? [[`${prefix}_assumptions`, `Assumptions (${tier.label})`, notes.join('; ')]] : [])
+      ]
+    }),
+    ...estimate.lineItems.flatMap((item, i) => {
+      const line = estimate.lines.find((l) => l.lineId === item.id)
+      const prefix = `line_${i + 1}`
+      return [
+        [`${prefix}_unit_of_work`, `Line ${i + 1} unit of work`, item.unitOfWork],
+        [`${prefix}_monthly_count`, `Line ${i + 1} monthly volume`, item.monthlyCount],
+        ...(line ? [
+          [`${prefix}_monthly_total_light`, `Line ${i + 1} monthly credits (light)`, lineCredits(item, line.calculation.calculations).light],
+          [`${prefix}_monthly_total_heavy`, `Line ${i + 1} monthly credits (heavy)`, lineCredits(item, line.calculation.calculations).heavy]
+        ] : []),
+        ...(line?.calculation.parameters ? [
+          [`${prefix}_parameters_light`, `Line ${i + 1} assumptions (light)`, describeParameters(line.calculation.parameters.light)],
+          [`${prefix}_parameters_heavy`, `Line ${i + 1} assumptions (heavy)`, describeParameters(line.calculation.parameters.heavy)]
+        ] : [])
+      ]
+    }),
+    ...sortWarnings(estimate.calculation.warnings).map((warning, i) => [
+      `warning_${i + 1}`,
+      `Warning ${i + 1} (${warning.code})`,
+      describeWarning(warning)
+    ]),
+    ...(currency === 'USD' ? [] : [
+      ['currency', 'Display currency', currency],
+      ['exchange_rate', `${currency} per USD`, format.settings.exchangeRates[currency] ?? 1],
+      ['cost_light', `Monthly cost ${currency} (light)`, round2(calculations.dollar_cost_light * (format.settings.exchangeRates[currency] ?? 1))],
+      ['cost_heavy', `Monthly cost ${currency} (heavy)`, round2(calculations.dollar_cost_heavy * (format.settings.exchangeRates[currency] ?? 1))],
+      ...tiers.map((tier, i) => [
+        `tier_${i + 1}_cost`,
+        `Monthly cost ${currency} (${tier.label})`,
+        round2(tier.dollar_cost * (format.settings.exchangeRates[currency] ?? 1))
+      ])
+    ])
+  ]
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+const tierNotes = (tier: TierResult): string[] => [...tier.assumptions, ...tier.agent_assumptions]
+
+// One row per figure and one column per scenario tier, as [label, ...cells]
+const tierTable = (tiers: TierResult[], format: Formatter): string[][] => [
+  ['Scales', ...tiers.map((tier) => (tier.source === 'agent' ? 'Agent estimate' : describeTierBasis(tier)))],
+  ['Monthly credits', ...tiers.map((tier) => format.credits(tier.monthly_credits))],
+  [`Monthly cost (${format.settings.currency})`, ...tiers.map((tier) => format.money(tier.dollar_cost))],
+  ['Legacy pricing (credits)', ...tiers.map((tier) => format.credits(tier.legacy_comparison))],
+  ['Savings vs legacy', ...tiers.map((tier) => legacySavings(tier.monthly_credits, tier.legacy_comparison, format))]
+]
+
+// Per-line credits with each line's scenario override applied
+const workloadRows = (estimate: NewEstimate) =>
+  estimate.lineItems.flatMap((item) => {
+    const line = estimate.lines.find((l) => l.lineId === item.id)
+    return line ? [{ item, ...lineCredits(item, line.calculation.calculations) }] : []
+  })
+
+// Structured assumptions per line, where the line has them
+const parameterNotes = (estimate: NewEstimate): string[] =>
+  estimate.lineItems.flatMap((item) => {
+    const parameters = estimate.lines.find((l) => l.lineId === item.id)?.calculation.parameters
+    if (!parameters) return []
+    const label = estimate.lineItems.length > 1 ? ` (${item.unitOfWork})` : ''
+    return [`Light${label}: ${describeParameters(parameters.light)}`, `Heavy${label}: ${describeParameters(parameters.heavy)}`]
+  })
+
+// The disclaimer is the one on the rate card the estimate was priced under
+export function toMarkdown(estimate: NewEstimate, format: Formatter = defaultFormat, disclaimer = DEFAULT_RATE_CARD.disclaimer): string {
+  const { summary, calculations, assumptions, warnings } = estimate.calculation
+  const tiers = tiersOf(estimate.calculation)
+  const lines = [
+    `# ${estimate.name}`,
+    '',
+    `**Business idea:** ${estimate.businessIdea}`,
+    '',
+    `**Unit of work:** ${estimate.unitOfWork}  `,
+    `**Monthly volume:** ${format.number(estimate.monthlyCount)}  `,
+    `**Rate card:** ${estimate.rateCardVersion} (${estimate.planId} plan)  `,
+    `**Assumptions:** ${assumptionsSource(estimate.lines)}`,
+    '',
+    '## Scenarios',
+    '',
+    `| | ${tiers.map((tier) => tier.label).join(' | ')} |`,
+    `|---|${tiers.map(() => '---:').join('|')}|`,
+    ...tierTable(tiers, format).map((row) => `| ${row.join(' | ')} |`),
+    '',
+    `Credits per unit: ${format.credits(calculations.per_unit_credits)}`,
+    ''
+  ]
+  const tierLines = tiers.filter((tier) => tierNotes(tier).length).map((tier) => `- **${tier.label}:** ${tierNotes(tier).join('; ')}`)
+  if (tierLines.length) lines.push(...tierLines, '')
+  if (estimate.lineItems.length > 1) {
+    lines.push('## Workloads', '', '| Unit of work | Monthly volume | Light credits | Heavy credits |', '|---|---:|---:|---:|')
+    for (const row of workloadRows(estimate)) {
+      lines.push(`| ${row.item.unitOfWork} | ${format.number(row.item.monthlyCount)} | ${format.credits(row.light)} | ${format.credits(row.heavy)} |`)
+    }
+    lines.push('')
+  }
+  if (summary.light_scenario || summary.heavy_scenario) {
+    lines.push(`- **Light:** ${summary.light_scenario}`, `- **Heavy:** ${summary.heavy_scenario}`, '')
+  }
+  const notes = [...parameterNotes(estimate), ...assumptions]
+  lines.push('## Assumptions', '', ...(notes.length ? notes.map((a) => `- ${a}`) : ['_None_']), '')
+  const warningLines = sortWarnings(warnings).map((w) =>
+    `- **${SEVERITY_LABELS[w.severity]}:** ${w.message}${w.field ? ` (\`${w.field}\`)` : ''}${w.suggested_action ? ` — ${w.suggested_action}` : ''}`)
+  lines.push('## Warnings', '', ...(warningLines.length ? warningLines : ['_None_']), '')
+  if (disclaimer) lines.push(`_${disclaimer}_`, '')
+  return lines.join('\n')
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!)
+
+export function toHtmlReport(estimate: NewEstimate, format: Formatter = defaultFormat, disclaimer = DEFAULT_RATE_CARD.disclaimer): string {
+  const { calculations, assumptions, warnings } = estimate.calculation
+  const tiers = tiersOf(estimate.calculation)
+  const credits = (value: number) => format.credits(value)
+  const list = (items: string[]) =>
+    items.length ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '<p class="muted">None</p>'
+
+  return `<!doctype html>
+<html lang="${escapeHtml(format.settings.locale)}">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(estimate.name)} – Credit Estimate</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #202124; margin: 40px; }
+  h1 { color: #1B1F23; margin-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; margin: 16px 0; }
+  th, td { border: 1px solid #E5E7EB; padding: 8px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  .muted { color: #6B7280; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(estimate.name)}</h1>
+<p class="muted">Lyzr credit estimate</p>
+<p><strong>Business idea:</strong> ${escapeHtml(estimate.businessIdea)}</p>
+<p><strong>Unit of work:</strong> ${escapeHtml(estimate.unitOfWork)}<br /><strong>Monthly volume:</strong> ${format.number(estimate.monthlyCount)}<br /><strong>Rate card:</strong> ${escapeHtml(estimate.rateCardVersion)} (${escapeHtml(estimate.planId)} plan)<br /><strong>Assumptions:</strong> ${assumptionsSource(estimate.lines)}</p>
+<table>
+  <tr><th></th>${tiers.map((tier) => `<th>${escapeHtml(tier.label)}</th>`).join('')}</tr>
+${tierTable(tiers, format).map((row) => `  <tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')}
+</table>
+<p>Credits per unit: ${credits(calculations.per_unit_credits)}</p>
+${estimate.lineItems.length > 1 ? `<h2>Workloads</h2>
+<table>
+  <tr><th>Unit of work</th><th>Monthly volume</th><th>Light credits</th><th>Heavy credits</th></tr>
+${workloadRows(estimate).map((row) => `  <tr><td>${escapeHtml(row.item.unitOfWork)}</td><td>${format.number(row.item.monthlyCount)}</td><td>${credits(row.light)}</td><td>${credits(row.heavy)}</td></tr>`).join('\n')}
+</table>` : ''}
+<p class="muted">Prepared ${escapeHtml(format.date(new Date()))}</p>
+<h2>Assumptions</h2>
+${list([...tiers.filter((tier) => tierNotes(tier).length).map((tier) => `${tier.label}: ${tierNotes(tier).join('; ')}`), ...parameterNotes(estimate), ...assumptions])}
+<h2>Warnings</h2>
+${list(sortWarnings(warnings).map(describeWarning))}
+${disclaimer ? `<p class="muted">${escapeHtml(disclaimer)}</p>\n` : ''}</body>
+</html>
+`
+}
+
+export function toJsonDocument(estimate: NewEstimate): string {
+  const exported: EstimateDocument = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    estimate
+  }
+  return JSON.stringify(exported, null, 2)
+}
+
+const parseBudget = (budget: unknown): MonthlyBudget | null => {
+  const { amount, unit } = (budget ?? {}) as Partial<MonthlyBudget>
+  return typeof amount === 'number' && amount > 0 && (unit === 'usd' || unit === 'credits') ? { amount, unit } : null
+}
+
+const parseLineItem = (item: Partial<LineItem>, i: number): LineItem => ({
+  id: String(item?.id ?? `line-${i + 1}`),
+  unitOfWork: String(item?.unitOfWork ?? ''),
+  monthlyCount: Number(item?.monthlyCount) || 0,
+  scenarioOverride: item?.scenarioOverride === 'light' || item?.scenarioOverride === 'heavy' ? item.scenarioOverride : null,
+  pricedBy: item?.pricedBy === 'local' ? 'local' : 'agent'
+})
+
+export function parseJsonDocument(text: string): ImportResult {
+  let exported: Partial<EstimateDocument>
+  try {
+    exported = JSON.parse(text)
+  } catch {
+    return { ok: false, errors: [{ path: '', message: 'is not valid JSON' }] }
+  }
+
+  if (exported?.format !== EXPORT_FORMAT) {
+    return { ok: false, errors: [{ path: 'format', message: `must be "${EXPORT_FORMAT}"` }] }
+  }
+  if (typeof exported.version !== 'number' || exported.version > EXPORT_VERSION) {
+    return { ok: false, errors: [{ path: 'version', message: `unsupported version ${exported.version}` }] }
+  }
+
+  const estimate = exported.estimate
+  if (!estimate || typeof estimate !== 'object') {
+    return { ok: false, errors: [{ path: 'estimate', message: 'is missing' }] }
+  }
+
+  const calculation = validateCreditCalculation(estimate.calculation, 'document')
+  if (!calculation.ok) {
+    return { ok: false, errors: calculation.errors.map((e) => ({ ...e, path: `estimate.calculation.${e.path}` })) }
+  }
+  const scenario = estimate.scenario ? validateScenarioData(estimate.scenario) : null
+  if (scenario && !scenario.ok) {
+    return { ok: false, errors: scenario.errors.map((e) => ({ ...e, path: `estimate.scenario.${e.path}` })) }
+  }
+
+  const lineItems = Array.isArray(estimate.lineItems) ? estimate.lineItems.map(parseLineItem) : undefined
+  const lines: LineCalculation[] = []
+  for (const [i, line] of (Array.isArray(estimate.lines) ? estimate.lines : []).entries()) {
+    const lineCalculation = validateCreditCalculation(line?.calculation, 'document')
+    if (!lineCalculation.ok) {
+      return { ok: false, errors: lineCalculation.errors.map((e) => ({ ...e, path: `estimate.lines[${i}].calculation.${e.path}` })) }
+    }
+    const original = line.original === undefined ? null : validateCreditCalculation(line.original, 'document')
+    if (original && !original.ok) {
+      return { ok: false, errors: original.errors.map((e) => ({ ...e, path: `estimate.lines[${i}].original.${e.path}` })) }
+    }
+    lines.push({
+      lineId: String(line.lineId),
+      source: line.source === 'local' ? 'local' : 'agent',
+      calculation: lineCalculation.value,
+      ...(line.userAdjusted === true && { userAdjusted: true }),
+      ...(original?.ok && { original: original.value })
+    })
+  }
+
+  return {
+    ok: true,
+    estimate: withLineItems({
+      name: String(estimate.name ?? estimate.businessIdea ?? 'Imported estimate'),
+      businessIdea: String(estimate.businessIdea ?? ''),
+      unitOfWork: String(estimate.unitOfWork ?? ''),
+      monthlyCount: Number(estimate.monthlyCount) || 0,
+      scenario: scenario?.value ?? null,
+      calculation: calculation.value,
+      agentVersions: estimate.agentVersions ?? {},
+      rateCardVersion: String(estimate.rateCardVersion ?? DEFAULT_RATE_CARD.version),
+      planId: String(estimate.planId ?? DEFAULT_RATE_CARD.defaultPlanId),
+      budget: parseBudget(estimate.budget),
+      lineItems,
+      lines: estimate.lines ? lines : undefined
+    })
+  }
+}
+
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+// Opens the HTML report in a new window and hands it to the browser's print
+// dialog, where it can be saved as PDF
+export function printReport(estimate: NewEstimate, format: Formatter = defaultFormat, disclaimer = DEFAULT_RATE_CARD.disclaimer): void {
+  const report = window.open('', '_blank')
+  if (!report) throw new Error('The report window was blocked by the browser')
+  report.document.write(toHtmlReport(estimate, format, disclaimer))
+  report.document.close()
+  report.focus()
+  report.print()
+}
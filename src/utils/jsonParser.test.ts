@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import parseLLMJson, { IncrementalJsonParser } from './jsonParser'
+import { validateCreditCalculation, validateScenarioData } from './validation'
+import { corpusEntries, fixture } from '../test/agentFetch'
+
+const validators = { scenarioParser: validateScenarioData, creditCalculator: validateCreditCalculation }
+
+describe('parseLLMJson on recorded agent output', () => {
+  // Golden results: a change in what any recording parses or validates to shows up as a snapshot diff
+  it.each(corpusEntries())('%s', (name, raw) => {
+    const agent = name.split('.')[0] as keyof typeof validators
+    const strict = parseLLMJson(raw)
+    const partial = parseLLMJson(raw, { allowPartial: true })
+    const candidate = partial.success ? partial.data : null
+
+    expect({
+      strict: strict.success ? { partial: strict.partial } : { error: strict.error },
+      lenient: partial.success ? { partial: partial.partial, data: partial.data } : { error: partial.error },
+      validation: candidate === null ? null : validators[agent](candidate)
+    }).toMatchSnapshot()
+  })
+
+  it('finds the fenced block inside a response wrapper', () => {
+    const result = parseLLMJson<{ questions_asked: string[] }>(fixture('scenarioParser.fenced-response'), { trace: true })
+    expect(result.success).toBe(true)
+    if (!result.success) return
+    expect(result.data.questions_asked).toHaveLength(2)
+    expect(result.trace?.unwrapDepth).toBe(1)
+    expect(result.trace?.inner[0].candidates[0].tier).toBe(1)
+  })
+
+  it('reads Python-style dicts', () => {
+    const result = parseLLMJson<Record<string, unknown>>(fixture('scenarioParser.python-dict'), { trace: true })
+    expect(result.success && result.data.defaults_applied).toEqual({ erp: null, auto_approve: false, invoices_per_night: 400, ocr: true })
+    const repairs = result.trace?.candidates[result.trace.winner ?? 0].repairs
+    expect(repairs).toEqual(expect.arrayContaining(['single-quoted-strings', 'non-json-literals', 'extra-commas']))
+  })
+
+  it('reads bare JSON with comments and unquoted keys out of prose', () => {
+    const result = parseLLMJson<Record<string, unknown>>(fixture('scenarioParser.prose-and-comments'))
+    expect(result.success && result.data.scenario_summary).toBe('Lead qualification bot for inbound website chats')
+    expect(result.success && result.data.defaults_applied).toMatchObject({ crm: 'hubspot' })
+  })
+
+  it('peels nested response wrappers, string and object alike', () => {
+    const result = parseLLMJson<{ calculations: { monthly_total_light: number } }>(fixture('creditCalculator.nested-response'), { trace: true })
+    expect(result.success && result.data.calculations.monthly_total_light).toBe(29500)
+    expect(result.trace?.unwrapDepth).toBe(2)
+  })
+
+  it('rejects truncated JSON unless partial results are allowed', () => {
+    const raw = fixture('creditCalculator.truncated')
+    expect(parseLLMJson(raw).success).toBe(false)
+
+    const partial = parseLLMJson<{ calculations: Record<string, number> }>(raw, { allowPartial: true })
+    expect(partial.success && partial.partial).toBe(true)
+    expect(partial.success && partial.data.calculations.legacy_comparison_heavy).toBe(88500)
+  })
+
+  it('fails on a plain-prose refusal', () => {
+    const result = parseLLMJson(fixture('creditCalculator.refusal'), { allowPartial: true })
+    expect(result.success).toBe(false)
+  })
+
+  it('converges on the same result when a recording arrives in chunks', () => {
+    const raw = fixture('creditCalculator.nested-response')
+    const parser = new IncrementalJsonParser()
+    for (let i = 0; i < raw.length; i += 17) parser.push(raw.slice(i, i + 17))
+    expect(parser.finish()).toEqual(parseLLMJson(raw))
+  })
+
+  it('waits for the buffer to grow before parsing it again', () => {
+    const parser = new IncrementalJsonParser()
+    expect(parser.push('{"light": 1, "heavy": 3')).toEqual({ success: true, data: { light: 1, heavy: 3 }, partial: true })
+    // Too little new text to be worth rereading the whole buffer
+    expect(parser.push(', "pilot": 0.25')).toEqual({ success: true, data: { light: 1, heavy: 3 }, partial: true })
+    expect(parser.push(', "worst_case": 6, "notes": "doubled"}')).toMatchObject({ data: { pilot: 0.25, worst_case: 6 } })
+    expect(parser.finish()).toEqual({ success: true, data: { light: 1, heavy: 3, pilot: 0.25, worst_case: 6, notes: 'doubled' }, partial: false })
+  })
+})
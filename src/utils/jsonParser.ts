@@ -1,338 +1,630 @@
-function parseLLMJson(response, options = {}) {
-    const {
-        attemptFix = true,
-        maxBlocks = 5,
-        preferFirst = true,  // Prefer first valid JSON found
-        allowPartial = false // Allow partial/truncated JSON
-    } = options;
-
-    // Validate input
-    if (!response || typeof response !== 'string') {
-        return {
-            success: false,
-            error: 'Invalid input: response must be a non-empty string',
-            data: null,
-            rawJson: null
-        };
-    }
-
-    // Cache for performance
-    const jsonCache = new Map();
+// Tolerant JSON parsing for LLM output. Agents wrap JSON in prose, markdown
+// fences, `response` envelopes and Python-isms, and sometimes get cut off
+// mid-object. Instead of rewriting the text with regexes (which mangles URLs
+// and ellipses inside strings), candidates are read with a lenient tokenizer
+// that only relaxes the grammar outside of string literals.
+
+export type Result<T> =
+  | { success: true; data: T; partial: boolean; trace?: ParseTrace }
+  | { success: false; error: string; trace?: ParseTrace }
+
+export interface ParseOptions {
+  // Fall back to the lenient tokenizer when strict JSON.parse fails
+  attemptFix?: boolean
+  // Upper bound on candidate blocks pulled out of the text
+  maxBlocks?: number
+  // Try fenced blocks before bare JSON, rather than in document order
+  preferFirst?: boolean
+  // Close unterminated strings, arrays and objects instead of failing
+  allowPartial?: boolean
+  // Attach a ParseTrace describing how the result was found
+  trace?: boolean
+}
 
-    // Enhanced JSON fixing function
-    const fixCommonJsonIssues = (jsonStr) => {
-        // Check cache first
-        if (jsonCache.has(jsonStr)) {
-            return jsonCache.get(jsonStr);
-        }
+// What the lenient reader had to fix to make sense of a candidate
+export type Repair =
+  | 'removed-bom'
+  | 'removed-comments'
+  | 'removed-ellipsis'
+  | 'single-quoted-strings'
+  | 'unquoted-keys'
+  | 'bare-word-values'
+  | 'non-json-literals'
+  | 'extra-commas'
+  | 'missing-commas'
+  | 'unescaped-string-blob'
+  | 'closed-string'
+  | 'closed-brackets'
+  | 'dropped-truncated-value'
+
+// 1 = ```json fence, 2 = other fence, 3 = inline code, 4 = bare JSON in
+// prose, 5 = the whole response as a last resort
+export type CandidateTier = 1 | 2 | 3 | 4 | 5
+
+export interface CandidateTrace {
+  start: number
+  end: number
+  tier: CandidateTier
+  complete: boolean
+  outcome: 'parsed' | 'failed' | 'skipped'
+  strategy?: 'strict' | 'lenient' | 'partial'
+  error?: string
+  repairs: Repair[]
+}
 
-        let fixed = jsonStr;
+export interface ParseTrace {
+  candidates: CandidateTrace[]
+  // Index into `candidates` of the one that produced the data
+  winner: number | null
+  // How many `response` wrappers were peeled off
+  unwrapDepth: number
+  // Traces for wrappers whose `response` was itself a string to parse
+  inner: ParseTrace[]
+}
 
-        // Remove BOM if present
-        fixed = fixed.replace(/^\uFEFF/, '');
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue }
 
-        // Remove all types of comments more aggressively
-        fixed = fixed.replace(/\/\/.*$/gm, '');
-        fixed = fixed.replace(/\/\*[\s\S]*?\*\//g, '');
-        fixed = fixed.replace(/^\s*#.*$/gm, ''); // Python-style comments
+interface Candidate {
+  text: string
+  start: number
+  end: number
+  tier: CandidateTier
+  complete: boolean
+}
 
-        // Handle escaped characters that might break parsing
-        fixed = fixed.replace(/\\'/g, "'");
-        fixed = fixed.replace(/\\"/g, '"');
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+type Token =
+  | { type: 'punct'; value: '{' | '}' | '[' | ']' | ':' | ',' }
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'literal'; value: boolean | null }
+  | { type: 'word'; value: string }
+  | { type: 'eof' }
+
+class ParseError extends Error {}
+
+const LITERALS: Record<string, boolean | null> = {
+  true: true,
+  false: false,
+  null: null,
+  True: true,
+  False: false,
+  None: null,
+  undefined: null,
+  NaN: null
+}
 
-        // Fix truncated strings (common in LLM outputs)
-        if (allowPartial) {
-            // Close unclosed strings
-            const quoteCount = (fixed.match(/"/g) || []).length;
-            if (quoteCount % 2 !== 0) {
-                fixed += '"';
-            }
-        }
+const JSON_LITERALS = new Set(['true', 'false', 'null'])
+
+const ESCAPES: Record<string, string> = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' }
+
+class Tokenizer {
+  private readonly text: string
+  private readonly allowPartial: boolean
+  private pos = 0
+  // Set once the input ran out inside a token or structure
+  truncated = false
+  readonly repairs = new Set<Repair>()
+
+  constructor(text: string, allowPartial: boolean) {
+    this.text = text
+    this.allowPartial = allowPartial
+  }
+
+  private skipIgnored(): void {
+    const { text } = this
+    while (this.pos < text.length) {
+      const char = text[this.pos]
+      const next = text[this.pos + 1]
+      if (/\s/.test(char)) {
+        this.pos++
+      } else if (char === '﻿') {
+        this.repairs.add('removed-bom')
+        this.pos++
+      } else if ((char === '/' && next === '/') || char === '#') {
+        this.repairs.add('removed-comments')
+        while (this.pos < text.length && text[this.pos] !== '\n') this.pos++
+      } else if (char === '/' && next === '*') {
+        this.repairs.add('removed-comments')
+        const close = text.indexOf('*/', this.pos + 2)
+        this.pos = close === -1 ? text.length : close + 2
+      } else if (text.startsWith('...', this.pos) || char === '…') {
+        // Elided content ("[1, 2, ...]") outside of strings
+        this.repairs.add('removed-ellipsis')
+        this.pos += char === '…' ? 1 : 3
+      } else {
+        return
+      }
+    }
+  }
 
-        // Remove trailing commas more comprehensively
-        fixed = fixed.replace(/,(\s*[}\]])/g, '$1');
-        fixed = fixed.replace(/,\s*$/g, '');
-
-        // Fix unquoted keys (including those with hyphens and dots)
-        fixed = fixed.replace(/([{,]\s*)([a-zA-Z_$][\w\-\.]*)\s*:/g, '$1"$2":');
-
-        // Convert single quotes to double quotes more carefully
-        // Handle nested quotes
-        fixed = fixed.replace(/'([^'\\]*(\\.[^'\\]*)*)'/g, '"$1"');
-
-        // Fix boolean and null values that might be incorrectly formatted
-        fixed = fixed.replace(/:\s*True\b/gi, ': true');
-        fixed = fixed.replace(/:\s*False\b/gi, ': false');
-        fixed = fixed.replace(/:\s*None\b/gi, ': null');
-        fixed = fixed.replace(/:\s*undefined\b/gi, ': null');
-
-        // Handle Python-style lists/dicts
-        fixed = fixed.replace(/\bTrue\b/g, 'true');
-        fixed = fixed.replace(/\bFalse\b/g, 'false');
-        fixed = fixed.replace(/\bNone\b/g, 'null');
-
-        // Fix improperly escaped quotes inside strings
-        fixed = fixed.replace(/"([^"]*)\\"([^"]*)"/, '"$1\\"$2"');
-
-        // Handle ellipsis in truncated content
-        fixed = fixed.replace(/\.\.\./g, '');
-        fixed = fixed.replace(/…/g, '');
-
-        // Cache the result
-        jsonCache.set(jsonStr, fixed);
-        return fixed;
-    };
-
-    // Enhanced JSON extraction
-    const extractJson = (text) => {
-        const results = [];
-
-        // Priority 1: Look for code blocks with json marker
-        const jsonBlockPattern = /```(?:json|JSON)\s*\n?([\s\S]*?)\n?```/g;
-        let match;
-        while ((match = jsonBlockPattern.exec(text)) !== null) {
-            if (results.length >= maxBlocks) break;
-            const content = match[1]?.trim();
-            if (content) results.push({ content, priority: 1 });
-        }
+  next(): Token {
+    this.skipIgnored()
+    const { text } = this
+    if (this.pos >= text.length) return { type: 'eof' }
 
-        // Priority 2: Look for any code blocks
-        const codeBlockPattern = /```\s*\n?([\s\S]*?)\n?```/g;
-        while ((match = codeBlockPattern.exec(text)) !== null) {
-            if (results.length >= maxBlocks) break;
-            const content = match[1]?.trim();
-            if (content && (content.startsWith('{') || content.startsWith('['))) {
-                results.push({ content, priority: 2 });
-            }
+    const char = text[this.pos]
+    if ('{}[]:,'.includes(char)) {
+      this.pos++
+      return { type: 'punct', value: char as '{' | '}' | '[' | ']' | ':' | ',' }
+    }
+    if (char === '"' || char === "'") return this.readString(char)
+    if (/[-+.\d]/.test(char)) return this.readNumber()
+    if (/[A-Za-z_$]/.test(char)) return this.readWord()
+
+    throw new ParseError(`Unexpected character "${char}" at position ${this.pos}`)
+  }
+
+  private readString(quote: string): Token {
+    const { text } = this
+    let value = ''
+    this.pos++
+    if (quote === "'") this.repairs.add('single-quoted-strings')
+
+    while (this.pos < text.length) {
+      const char = text[this.pos++]
+      if (char === quote) return { type: 'string', value }
+      if (char !== '\\') {
+        value += char
+        continue
+      }
+
+      const escaped = text[this.pos++]
+      if (escaped === undefined) break
+      if (escaped === 'u') {
+        const hex = text.slice(this.pos, this.pos + 4)
+        if (/^[0-9a-fA-F]{4}$/.test(hex)) {
+          value += String.fromCharCode(parseInt(hex, 16))
+          this.pos += 4
+        } else if (this.pos + 4 > text.length) {
+          this.pos = text.length
+          break
+        } else {
+          value += 'u'
         }
+      } else {
+        value += ESCAPES[escaped] ?? escaped
+      }
+    }
 
-        // Priority 3: Look for inline code blocks
-        const inlinePattern = /`([^`]+)`/g;
-        while ((match = inlinePattern.exec(text)) !== null) {
-            if (results.length >= maxBlocks) break;
-            const content = match[1]?.trim();
-            if (content && (content.startsWith('{') || content.startsWith('['))) {
-                results.push({ content, priority: 3 });
-            }
-        }
+    if (!this.allowPartial) throw new ParseError('Unterminated string')
+    this.truncated = true
+    this.repairs.add('closed-string')
+    return { type: 'string', value }
+  }
+
+  private readNumber(): Token {
+    const match = this.text.slice(this.pos).match(/^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d*)?/)
+    if (!match) {
+      // A lone "-" or "." at the very end of a truncated response
+      if (this.allowPartial && this.pos >= this.text.length - 1) {
+        this.pos = this.text.length
+        this.truncated = true
+        this.repairs.add('dropped-truncated-value')
+        return { type: 'literal', value: null }
+      }
+      throw new ParseError(`Invalid number at position ${this.pos}`)
+    }
 
-        // Priority 4: Extract JSON-like structures directly
-        // Improved regex to handle nested structures better
-        const jsonPatterns = [
-            /(\{(?:[^{}]|(?:\{[^{}]*\}))*\})/g,  // Nested objects
-            /(\[(?:[^\[\]]|(?:\[[^\[\]]*\]))*\])/g, // Nested arrays
-        ];
-
-        for (const pattern of jsonPatterns) {
-            pattern.lastIndex = 0;
-            while ((match = pattern.exec(text)) !== null) {
-                if (results.length >= maxBlocks) break;
-                const content = match[1]?.trim();
-                if (content && content.length > 10) { // Minimum length check
-                    results.push({ content, priority: 4 });
-                }
-            }
-        }
+    this.pos += match[0].length
+    const value = Number(match[0].replace(/[eE][-+]?$/, ''))
+    if (!Number.isFinite(value)) throw new ParseError(`Invalid number "${match[0]}"`)
+    return { type: 'number', value }
+  }
+
+  private readWord(): Token {
+    const match = this.text.slice(this.pos).match(/^[A-Za-z_$][\w$\-.]*/)!
+    this.pos += match[0].length
+    const word = match[0]
+    if (word in LITERALS) {
+      if (!JSON_LITERALS.has(word)) this.repairs.add('non-json-literals')
+      return { type: 'literal', value: LITERALS[word] }
+    }
+    // "tru" at the end of a truncated response is a literal cut short, not a word
+    if (this.allowPartial && this.pos >= this.text.length && Object.keys(LITERALS).some((l) => l.startsWith(word))) {
+      this.truncated = true
+      this.repairs.add('dropped-truncated-value')
+      return { type: 'literal', value: null }
+    }
+    return { type: 'word', value: word }
+  }
+}
 
-        // Sort by priority if preferFirst is true
-        if (preferFirst) {
-            results.sort((a, b) => a.priority - b.priority);
-        }
+// ---------------------------------------------------------------------------
+// Lenient recursive-descent parser
+
+class LenientParser {
+  private readonly tokens: Tokenizer
+  private readonly allowPartial: boolean
+  private current: Token
+
+  constructor(text: string, allowPartial: boolean) {
+    this.tokens = new Tokenizer(text, allowPartial)
+    this.allowPartial = allowPartial
+    this.current = this.tokens.next()
+  }
+
+  get truncated(): boolean {
+    return this.tokens.truncated
+  }
+
+  get repairs(): Set<Repair> {
+    return this.tokens.repairs
+  }
+
+  private advance(): Token {
+    const token = this.current
+    this.current = this.tokens.next()
+    return token
+  }
+
+  // A method rather than an inline check so TS doesn't carry narrowing across advance()
+  private atEnd(): boolean {
+    return this.current.type === 'eof'
+  }
+
+  private isPunct(value: string): boolean {
+    return this.current.type === 'punct' && this.current.value === value
+  }
+
+  private endOfInput(context: string): void {
+    if (!this.allowPartial) throw new ParseError(`Unexpected end of input in ${context}`)
+    this.tokens.truncated = true
+    this.repairs.add('closed-brackets')
+  }
+
+  // Skips separators before the next member, noting commas that are doubled,
+  // leading or trailing, and members that follow one another without one
+  private skipCommas(first: boolean, close: '}' | ']'): void {
+    let commas = 0
+    while (this.isPunct(',')) {
+      this.advance()
+      commas++
+    }
+    if (commas > 1 || (commas && (first || this.isPunct(close)))) this.repairs.add('extra-commas')
+    if (!commas && !first && !this.isPunct(close) && !this.atEnd()) this.repairs.add('missing-commas')
+  }
+
+  parse(): JsonValue {
+    if (this.atEnd()) throw new ParseError('No JSON value found')
+    return this.parseValue(false)
+  }
+
+  // Bare words are only read as strings for object values; in an array or on their own
+  // they are far more likely prose in brackets ("[see docs]") than JSON
+  private parseValue(bareWords: boolean): JsonValue {
+    const token = this.advance()
+    switch (token.type) {
+      case 'punct':
+        if (token.value === '{') return this.parseObject()
+        if (token.value === '[') return this.parseArray()
+        throw new ParseError(`Unexpected "${token.value}"`)
+      case 'string':
+      case 'number':
+      case 'literal':
+        return token.value
+      case 'word':
+        // Bare words in value position ({status: ok}) are read as strings
+        if (!bareWords) throw new ParseError(`Unexpected word "${token.value}"`)
+        this.repairs.add('bare-word-values')
+        return token.value
+      case 'eof':
+        this.endOfInput('value')
+        return null
+    }
+  }
+
+  private parseObject(): { [key: string]: JsonValue } {
+    const result: { [key: string]: JsonValue } = {}
+
+    for (let first = true; ; first = false) {
+      this.skipCommas(first, '}')
+      if (this.isPunct('}')) {
+        this.advance()
+        return result
+      }
+      if (this.atEnd()) {
+        this.endOfInput('object')
+        return result
+      }
+
+      const keyToken = this.advance()
+      if (keyToken.type === 'punct') throw new ParseError(`Unexpected "${keyToken.value}" in object`)
+      if (keyToken.type === 'eof') continue
+      if (keyToken.type !== 'string') this.repairs.add('unquoted-keys')
+      const key = String(keyToken.value)
+
+      if (this.isPunct(':')) {
+        this.advance()
+      } else if (this.atEnd()) {
+        // Truncated after a key; drop the key rather than invent a value
+        this.endOfInput('object')
+        this.repairs.add('dropped-truncated-value')
+        return result
+      } else {
+        throw new ParseError(`Expected ":" after key "${key}"`)
+      }
+
+      if (this.atEnd()) {
+        this.endOfInput('object')
+        return result
+      }
+      result[key] = this.parseValue(true)
+    }
+  }
+
+  private parseArray(): JsonValue[] {
+    const result: JsonValue[] = []
+
+    for (let first = true; ; first = false) {
+      this.skipCommas(first, ']')
+      if (this.isPunct(']')) {
+        this.advance()
+        return result
+      }
+      if (this.atEnd()) {
+        this.endOfInput('array')
+        return result
+      }
+      result.push(this.parseValue(false))
+    }
+  }
+}
 
-        return results.map(r => r.content);
-    };
-
-    // Smart JSON boundary detection
-    const findJsonBoundaries = (text) => {
-        let start = -1;
-        let end = -1;
-        let depth = 0;
-        let inString = false;
-        let escapeNext = false;
-
-        for (let i = 0; i < text.length; i++) {
-            const char = text[i];
-
-            if (escapeNext) {
-                escapeNext = false;
-                continue;
-            }
-
-            if (char === '\\') {
-                escapeNext = true;
-                continue;
-            }
-
-            if (char === '"' && !escapeNext) {
-                inString = !inString;
-                continue;
-            }
-
-            if (!inString) {
-                if (char === '{' || char === '[') {
-                    if (start === -1) start = i;
-                    depth++;
-                } else if (char === '}' || char === ']') {
-                    depth--;
-                    if (depth === 0 && start !== -1) {
-                        end = i + 1;
-                        break;
-                    }
-                }
-            }
-        }
+function parseLenient(text: string, allowPartial: boolean): { value: JsonValue; partial: boolean; repairs: Set<Repair> } {
+  const parser = new LenientParser(text, allowPartial)
+  const value = parser.parse()
+  return { value, partial: parser.truncated, repairs: parser.repairs }
+}
 
-        if (start !== -1 && end !== -1) {
-            return text.substring(start, end);
-        }
+// ---------------------------------------------------------------------------
+// Candidate extraction
 
-        // If we couldn't find complete boundaries but allowPartial is true
-        if (allowPartial && start !== -1) {
-            return text.substring(start) + (depth > 0 ? '}' : '');
-        }
+const FENCE_PATTERN = /```([\w-]*)[^\S\n]*\n?([\s\S]*?)(?:```|$)/g
+const INLINE_PATTERN = /`([^`\n]+)`/g
 
-        return null;
-    };
+const looksLikeJson = (text: string): boolean => /^[[{]/.test(text.trim())
 
-    // Enhanced parsing attempt
-    const tryParseJson = (jsonStr) => {
-        if (!jsonStr || jsonStr.trim().length === 0) {
-            return { success: false, data: null, error: 'Empty JSON string' };
-        }
+// Top-level {...} / [...] spans in free text. Only double quotes delimit
+// strings here, since prose is full of apostrophes.
+function scanBalanced(text: string): { start: number; end: number; complete: boolean }[] {
+  const spans: { start: number; end: number; complete: boolean }[] = []
+  let depth = 0
+  let start = -1
+  let inString = false
 
-        let cleanJson = jsonStr.trim();
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (char === '\\') i++
+      else if (char === '"') inString = false
+      continue
+    }
+    if (char === '"' && depth > 0) {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) start = i
+      depth++
+    } else if ((char === '}' || char === ']') && depth > 0) {
+      depth--
+      if (depth === 0) spans.push({ start, end: i + 1, complete: true })
+    }
+  }
 
-        // Try direct parse first (fastest)
-        try {
-            const parsed = JSON.parse(cleanJson);
-            return { success: true, data: parsed, error: null };
-        } catch (firstError) {
-            // Continue to fixing attempts
-        }
+  if (depth > 0) spans.push({ start, end: text.length, complete: false })
+  return spans
+}
 
-        if (attemptFix) {
-            // Try boundary detection
-            const boundedJson = findJsonBoundaries(cleanJson);
-            if (boundedJson) {
-                try {
-                    const parsed = JSON.parse(boundedJson);
-                    return { success: true, data: parsed, error: null };
-                } catch (e) {
-                    // Continue to other fixes
-                }
-            }
-
-            // Apply comprehensive fixes
-            cleanJson = fixCommonJsonIssues(cleanJson);
-
-            try {
-                const parsed = JSON.parse(cleanJson);
-                return { success: true, data: parsed, error: null };
-            } catch (secondError) {
-                // Last resort: try to extract just the JSON part
-                const extracted = findJsonBoundaries(cleanJson);
-                if (extracted) {
-                    try {
-                        const parsed = JSON.parse(extracted);
-                        return { success: true, data: parsed, error: null };
-                    } catch (e) {
-                        // Final failure
-                    }
-                }
-            }
-        }
+function extractCandidates(text: string, maxBlocks: number, preferFirst: boolean): Candidate[] {
+  const candidates: Candidate[] = []
+  const covered: [number, number][] = []
+  const add = (candidate: Candidate) => {
+    if (candidates.length < maxBlocks && candidate.text.trim()) candidates.push(candidate)
+  }
+
+  for (const match of text.matchAll(FENCE_PATTERN)) {
+    const [whole, language, body] = match
+    const start = match.index + whole.indexOf(body)
+    const isJson = language.toLowerCase() === 'json'
+    covered.push([match.index, match.index + whole.length])
+    if (!isJson && !looksLikeJson(body)) continue
+    add({ text: body.trim(), start, end: start + body.length, tier: isJson ? 1 : 2, complete: whole.endsWith('```') && whole.length > 3 })
+  }
+
+  const isCovered = (index: number) => covered.some(([from, to]) => index >= from && index < to)
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (isCovered(match.index) || !looksLikeJson(match[1])) continue
+    const start = match.index + 1
+    covered.push([match.index, match.index + match[0].length])
+    add({ text: match[1].trim(), start, end: start + match[1].length, tier: 3, complete: true })
+  }
+
+  for (const span of scanBalanced(text)) {
+    if (isCovered(span.start)) continue
+    add({ text: text.slice(span.start, span.end), start: span.start, end: span.end, tier: 4, complete: span.complete })
+  }
+
+  return preferFirst ? candidates.sort((a, b) => a.tier - b.tier || a.start - b.start) : candidates.sort((a, b) => a.start - b.start)
+}
 
-        return {
-            success: false,
-            data: null,
-            error: 'Failed to parse JSON after all attempts'
-        };
-    };
-
-    // Main parsing logic
-    const candidates = extractJson(response);
-
-    // Helper to unwrap response field if present
-    const unwrapResponse = (data, maxAttempts = 2) => {
-        let current = data;
-        let attempts = 0;
-
-        while (attempts < maxAttempts && current && typeof current === 'object') {
-            // Check if there's a "response" field
-            if ('response' in current && current.response) {
-                // If response is a string, try to parse it
-                if (typeof current.response === 'string') {
-                    const parsed = tryParseJson(current.response);
-                    if (parsed.success) {
-                        current = parsed.data;
-                        attempts++;
-                    } else {
-                        // Can't parse the response string, return current
-                        break;
-                    }
-                }
-                // If response is already an object, unwrap it
-                else if (typeof current.response === 'object') {
-                    current = current.response;
-                    attempts++;
-                }
-                else {
-                    // Response field exists but isn't useful, break
-                    break;
-                }
-            } else {
-                // No response field, we're done
-                break;
-            }
-        }
+// ---------------------------------------------------------------------------
+// Parsing pipeline
 
-        return current;
-    };
+interface CandidateOutcome {
+  result: Result<JsonValue>
+  strategy?: CandidateTrace['strategy']
+  repairs: Repair[]
+}
 
-    // Try each candidate
-    for (const jsonStr of candidates) {
-        const result = tryParseJson(jsonStr);
-        if (result.success) {
-            return unwrapResponse(result.data);
-        }
+function parseCandidate(text: string, options: Required<ParseOptions>): CandidateOutcome {
+  try {
+    return { result: { success: true, data: JSON.parse(text), partial: false }, strategy: 'strict', repairs: [] }
+  } catch {
+    // Only objects and arrays get the lenient treatment; bare prose is not JSON
+    if (!options.attemptFix || !looksLikeJson(text)) {
+      return { result: { success: false, error: 'Invalid JSON' }, repairs: [] }
     }
-
-    // If no candidates from extraction, try the whole response
-    const directResult = tryParseJson(response);
-    if (directResult.success) {
-        return unwrapResponse(directResult.data);
+  }
+
+  // A whole object serialized into a string: {\"a\": 1}
+  if (/^[[{]\s*\\"/.test(text)) {
+    try {
+      const unescaped = JSON.parse(`"${text.replace(/\n/g, '\\n')}"`) as string
+      const outcome = parseCandidate(unescaped, options)
+      return { ...outcome, repairs: ['unescaped-string-blob', ...outcome.repairs] }
+    } catch {
+      // Not a clean escape; fall through to the lenient reader
+    }
+  }
+
+  let error: string
+  try {
+    const { value, partial, repairs } = parseLenient(text, false)
+    return { result: { success: true, data: value, partial }, strategy: 'lenient', repairs: [...repairs] }
+  } catch (caught) {
+    error = (caught as Error).message
+  }
+
+  if (options.allowPartial) {
+    try {
+      const { value, partial, repairs } = parseLenient(text, true)
+      return { result: { success: true, data: value, partial }, strategy: 'partial', repairs: [...repairs] }
+    } catch (caught) {
+      error = (caught as Error).message
     }
+  }
 
-    // Final fallback: aggressive extraction
-    if (attemptFix) {
-        const aggressiveJson = findJsonBoundaries(response);
-        if (aggressiveJson) {
-            const result = tryParseJson(aggressiveJson);
-            if (result.success) {
-                return unwrapResponse(result.data);
-            }
-        }
+  return { result: { success: false, error }, repairs: [] }
+}
+
+const isRecord = (value: unknown): value is Record<string, JsonValue> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Agents often answer {"response": "<the real JSON, as a string>"}
+function unwrapResponse(data: JsonValue, options: Required<ParseOptions>, trace: ParseTrace, maxDepth = 2): { data: JsonValue; partial: boolean } {
+  let current = data
+  let partial = false
+
+  for (let depth = 0; depth < maxDepth && isRecord(current) && current.response; depth++) {
+    const inner = current.response
+    if (typeof inner === 'string') {
+      const parsed = parseText(inner, options)
+      trace.inner.push(parsed.trace)
+      if (!parsed.result.success) break
+      current = parsed.result.data
+      partial ||= parsed.result.partial
+    } else if (typeof inner === 'object') {
+      current = inner
+    } else {
+      break
     }
+    trace.unwrapDepth++
+  }
 
-    return {
-        success: false,
-        data: null,
-        error: 'No valid JSON found in the response',
-        rawJson: null
-    };
+  return { data: current, partial }
 }
 
-// Export for different module systems
-if (typeof module !== 'undefined' && module.exports) {
-    module.exports = parseLLMJson;
-} else if (typeof define === 'function' && define.amd) {
-    define([], function () { return parseLLMJson; });
-} else {
-    if (typeof globalThis !== 'undefined') {
-        globalThis.parseLLMJson = parseLLMJson;
-    } else if (typeof window !== 'undefined') {
-        window.parseLLMJson = parseLLMJson;
+function parseText(text: string, options: Required<ParseOptions>): { result: Result<JsonValue>; trace: ParseTrace } {
+  const candidates: Candidate[] = [
+    ...extractCandidates(text, options.maxBlocks, options.preferFirst),
+    // Nothing delimited worked; the whole text may still be JSON
+    { text: text.trim(), start: 0, end: text.length, tier: 5, complete: true }
+  ]
+  const trace: ParseTrace = { candidates: [], winner: null, unwrapDepth: 0, inner: [] }
+  let lastError = 'No valid JSON found in the response'
+
+  for (const candidate of candidates) {
+    const entry: CandidateTrace = {
+      start: candidate.start,
+      end: candidate.end,
+      tier: candidate.tier,
+      complete: candidate.complete,
+      outcome: 'skipped',
+      repairs: []
     }
+    trace.candidates.push(entry)
+    if (!candidate.complete && !options.allowPartial) continue
+
+    const { result, strategy, repairs } = parseCandidate(candidate.text, options)
+    Object.assign(entry, { strategy, repairs, outcome: result.success ? 'parsed' : 'failed' })
+    if (result.success) {
+      trace.winner = trace.candidates.length - 1
+      return { result, trace }
+    }
+    entry.error = result.error
+    // The whole-text fallback's error is rarely more useful than the last candidate's
+    if (candidate.tier !== 5 || looksLikeJson(candidate.text)) lastError = result.error
+  }
+
+  return { result: { success: false, error: lastError }, trace }
+}
+
+export function parseLLMJson<T = unknown>(response: string, options: ParseOptions = {}): Result<T> {
+  const resolved: Required<ParseOptions> = {
+    attemptFix: options.attemptFix ?? true,
+    maxBlocks: options.maxBlocks ?? 5,
+    preferFirst: options.preferFirst ?? true,
+    allowPartial: options.allowPartial ?? false,
+    trace: options.trace ?? false
+  }
+
+  if (typeof response !== 'string' || !response.trim()) {
+    return { success: false, error: 'Invalid input: response must be a non-empty string' }
+  }
+
+  const { result, trace } = parseText(response, resolved)
+  const withTrace = <R extends Result<T>>(value: R): R => (resolved.trace ? { ...value, trace } : value)
+  if (!result.success) return withTrace(result)
+
+  const unwrapped = unwrapResponse(result.data, resolved, trace)
+  return withTrace({ success: true, data: unwrapped.data as T, partial: result.partial || unwrapped.partial })
+}
+
+// A reparse waits until the buffer has grown by this share of its length, and at least
+// this many characters, since the last one
+const REPARSE_GROWTH = 0.1
+const MIN_REPARSE_CHARS = 32
+
+// Feeds a response in as it arrives; a push returns the best parse of everything
+// received so far, with partial structures closed off. Each parse reads the whole
+// buffer, because candidate extraction and response unwrapping need the full text,
+// so reparsing on every chunk would be quadratic in the response length. Parsing
+// only after proportional growth keeps a whole stream linear, at the cost of the
+// preview trailing the buffer by up to a tenth of its length; finish() always
+// parses everything.
+export class IncrementalJsonParser<T = unknown> {
+  private buffer = ''
+  private parsedLength = 0
+  private readonly options: ParseOptions
+  private last: Result<T> = { success: false, error: 'No data received yet' }
+
+  constructor(options: ParseOptions = {}) {
+    this.options = options
+  }
+
+  get text(): string {
+    return this.buffer
+  }
+
+  push(chunk: string): Result<T> {
+    this.buffer += chunk
+    // Nothing structural can have changed until a value-bearing character arrives
+    if (!chunk.trim()) return this.last
+    const growth = this.buffer.length - this.parsedLength
+    if (this.parsedLength > 0 && growth < Math.max(MIN_REPARSE_CHARS, this.parsedLength * REPARSE_GROWTH)) return this.last
+    this.parsedLength = this.buffer.length
+    const result = parseLLMJson<T>(this.buffer, { ...this.options, allowPartial: true })
+    if (result.success || !this.last.success) this.last = result
+    return this.last
+  }
+
+  finish(): Result<T> {
+    this.last = parseLLMJson<T>(this.buffer, this.options)
+    return this.last
+  }
 }
 
-export default parseLLMJson;
\ No newline at end of file
+export default parseLLMJson
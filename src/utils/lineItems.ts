@@ -0,0 +1,163 @@
+// Multi-line workloads. Each line is priced on its own, by the CreditCalculator
+// agent or the local engine, and the lines are rolled up into one calculation
+// that the rest of the app (comparison, projection, exports) works with.
+import { computeCredits, reconcile, type Reconciliation } from './creditEngine'
+import { priceCalculations, pricingInput, type RateCard } from './rateCard'
+import { agentParameters, scenarioUnitCredits, standardParameters } from './assumptions'
+import { priceTiers } from './scenarios'
+import type { Calculations, CreditCalculation, LineCalculation, LineItem, SavedEstimate, ScenarioTier } from '../types'
+
+export interface LineReconciliation {
+  lineId: string
+  unitOfWork: string
+  reconciliation: Reconciliation
+}
+
+const newLineId = (): string => `line-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+
+export const newLineItem = (unitOfWork = '', monthlyCount = 0): LineItem => ({
+  id: newLineId(),
+  unitOfWork,
+  monthlyCount,
+  scenarioOverride: null,
+  pricedBy: 'agent'
+})
+
+export const isCompleteLine = (item: LineItem): boolean =>
+  item.unitOfWork.trim() !== '' && Number.isFinite(item.monthlyCount) && item.monthlyCount > 0
+
+export const describeWorkload = (items: LineItem[]): string =>
+  items.map((item) => item.unitOfWork.trim()).filter(Boolean).join(' + ')
+
+export const totalVolume = (items: LineItem[]): number =>
+  items.reduce((sum, item) => sum + (Number.isFinite(item.monthlyCount) ? item.monthlyCount : 0), 0)
+
+// A line's contribution to the light and heavy totals once its override is applied
+export function lineCredits(item: LineItem, calculations: Calculations): { light: number; heavy: number } {
+  const { monthly_total_light: light, monthly_total_heavy: heavy } = calculations
+  if (item.scenarioOverride === 'light') return { light, heavy: light }
+  if (item.scenarioOverride === 'heavy') return { light: heavy, heavy }
+  return { light, heavy }
+}
+
+// Prices a line without the agent, from the rate card's action costs and mix
+export function localLineCalculation(item: LineItem, card: RateCard, planId: string): CreditCalculation {
+  const calculations = computeCredits({ unitOfWork: item.unitOfWork, monthlyCount: item.monthlyCount, ...pricingInput(card, planId) })
+  const mix = Object.entries(card.actionMix).map(([action, count]) => `${count} × ${action.replace(/_/g, ' ')}`).join(', ')
+  return {
+    summary: {
+      light_scenario: `Standard action mix for ${item.unitOfWork}`,
+      heavy_scenario: `Standard action mix at ${card.heavyMultiplier}x for retries and multi-step work`
+    },
+    calculations,
+    assumptions: [`Each unit uses the rate card's standard mix: ${mix}`],
+    warnings: [{
+      severity: 'info',
+      code: 'local_pricing',
+      field: 'actions_per_unit',
+      message: 'Priced with the local engine; the action mix is not tailored to this workload',
+      suggested_action: 'Price this line with the CreditCalculator agent or adjust its assumptions',
+      source: 'app'
+    }],
+    parameters: standardParameters(card)
+  }
+}
+
+// Rolls the lines up into one calculation, reported in the given scenario tiers.
+// Dollars are priced on the combined volume so volume discounts apply to the whole workload.
+export function aggregateLines(
+  items: LineItem[],
+  lines: LineCalculation[],
+  tiers: ScenarioTier[],
+  card: RateCard,
+  planId: string
+): CreditCalculation {
+  const priced = items.flatMap((item) => {
+    const line = lines.find((l) => l.lineId === item.id)
+    return line ? [{ item, calculation: line.calculation }] : []
+  })
+
+  let light = 0
+  let heavy = 0
+  for (const { item, calculation } of priced) {
+    const credits = lineCredits(item, calculation.calculations)
+    light += credits.light
+    heavy += credits.heavy
+  }
+  const units = totalVolume(priced.map(({ item }) => item))
+
+  // A single line reads exactly as before; several lines are labelled by unit
+  const label = priced.length > 1 ? (item: LineItem, text: string) => `${item.unitOfWork}: ${text}` : (_: LineItem, text: string) => text
+  const collect = (pick: (calculation: CreditCalculation) => string[]) =>
+    [...new Set(priced.flatMap(({ item, calculation }) => pick(calculation).map((text) => label(item, text))))]
+  const warnings = priced.flatMap(({ item, calculation }) =>
+    calculation.warnings.map((warning) => ({ ...warning, message: label(item, warning.message) })))
+  const summary = (pick: (calculation: CreditCalculation) => string) =>
+    priced
+      .filter(({ calculation }) => pick(calculation))
+      .map(({ item, calculation }) => label(item, pick(calculation)))
+      .join(' ')
+
+  const calculations = priceCalculations({
+    per_unit_credits: units > 0 ? Math.round((light / units) * 10_000) / 10_000 : 0,
+    monthly_total_light: light,
+    monthly_total_heavy: heavy,
+    dollar_cost_light: 0,
+    dollar_cost_heavy: 0,
+    legacy_comparison_light: 0,
+    legacy_comparison_heavy: 0
+  }, card, planId)
+  // The agent's tier figures do not account for a line's scenario override
+  const tierEstimates = priced.map(({ item, calculation }) => (item.scenarioOverride ? undefined : calculation.tier_estimates))
+
+  return {
+    summary: {
+      light_scenario: summary((calculation) => calculation.summary.light_scenario),
+      heavy_scenario: summary((calculation) => calculation.summary.heavy_scenario)
+    },
+    calculations,
+    assumptions: collect((calculation) => calculation.assumptions),
+    warnings: warnings.filter((warning, i) => warnings.findIndex((other) => other.message === warning.message) === i),
+    tiers: priceTiers(tiers, calculations, tierEstimates, card, planId)
+  }
+}
+
+// A line's share of an aggregate cost, in proportion to its credits
+export const allocate = (credits: number, totalCredits: number, totalCost: number): number =>
+  totalCredits > 0 ? (totalCost * credits) / totalCredits : 0
+
+// Only agent figures need checking; local and user-adjusted lines are priced by the engine.
+// Credits per unit must follow from the agent's parameters, or the standard mix without them.
+export function reconcileLines(items: LineItem[], lines: LineCalculation[], card: RateCard, planId: string): LineReconciliation[] {
+  const pricing = pricingInput(card, planId)
+  return items.flatMap((item) => {
+    const line = lines.find((l) => l.lineId === item.id)
+    if (!line || line.source !== 'agent' || line.userAdjusted) return []
+    const parameters = agentParameters(line.calculation, card)
+    return [{
+      lineId: item.id,
+      unitOfWork: item.unitOfWork,
+      reconciliation: reconcile(line.calculation.calculations, {
+        monthlyCount: item.monthlyCount,
+        unitCredits: parameters && {
+          light: scenarioUnitCredits(parameters.light, card),
+          heavy: scenarioUnitCredits(parameters.heavy, card)
+        },
+        ...pricing
+      })
+    }]
+  })
+}
+
+// Estimates saved before line items existed hold a single workload
+type LineFields = Pick<SavedEstimate, 'lineItems' | 'lines'>
+
+export function withLineItems<T extends Pick<SavedEstimate, 'unitOfWork' | 'monthlyCount' | 'calculation'> & Partial<LineFields>>(
+  estimate: T
+): T & LineFields {
+  if (Array.isArray(estimate.lineItems) && estimate.lineItems.length && Array.isArray(estimate.lines)) {
+    return { ...estimate, lineItems: estimate.lineItems, lines: estimate.lines }
+  }
+  const item: LineItem = { ...newLineItem(estimate.unitOfWork, estimate.monthlyCount), id: 'line-1' }
+  return { ...estimate, lineItems: [item], lines: [{ lineId: item.id, source: 'agent', calculation: estimate.calculation }] }
+}
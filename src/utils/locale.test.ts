@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { createFormatter, DEFAULT_LOCALE_SETTINGS, loadLocaleSettings, saveLocaleSettings } from './locale'
+
+describe('locale settings', () => {
+  it('loads exchange rates that are not positive numbers as 1', () => {
+    window.localStorage.setItem(
+      'lyzr-credit-estimator:locale',
+      JSON.stringify({ locale: 'de-DE', currency: 'EUR', exchangeRates: { EUR: 0, GBP: -2, INR: 'lots', JPY: 150 } })
+    )
+
+    const settings = loadLocaleSettings()
+    expect(settings.exchangeRates).toEqual({ EUR: 1, GBP: 1, INR: 1, JPY: 150, USD: 1 })
+    expect(createFormatter(settings).toUsd(500)).toBe(500)
+  })
+
+  it('converts budgets back to USD with a usable rate even when given a zero one', () => {
+    saveLocaleSettings({ ...DEFAULT_LOCALE_SETTINGS, currency: 'INR' })
+    expect(createFormatter(loadLocaleSettings()).toUsd(832)).toBe(10)
+
+    const broken = createFormatter({ ...DEFAULT_LOCALE_SETTINGS, currency: 'EUR', exchangeRates: { USD: 1, EUR: 0 } })
+    expect(broken.toUsd(500)).toBe(500)
+  })
+})
@@ -0,0 +1,114 @@
+// Locale and currency display settings. All amounts are computed in USD; they
+// are converted with the locally stored exchange rates only when formatted.
+import { formatDate } from './index'
+
+export interface LocaleSettings {
+  locale: string
+  currency: string
+  // Units of each currency per 1 USD
+  exchangeRates: Record<string, number>
+}
+
+export const SUPPORTED_LOCALES: { value: string; label: string }[] = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'en-IN', label: 'English (India)' },
+  { value: 'hi-IN', label: 'हिन्दी (भारत)' },
+  { value: 'de-DE', label: 'Deutsch' },
+  { value: 'fr-FR', label: 'Français' },
+  { value: 'es-ES', label: 'Español' },
+  { value: 'nl-NL', label: 'Nederlands' }
+]
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  locale: 'en-US',
+  currency: 'USD',
+  exchangeRates: { USD: 1, EUR: 0.92, GBP: 0.79, INR: 83.2 }
+}
+
+// Credit counts at or above this are shortened ("1.2M") where space is tight
+export const COMPACT_THRESHOLD = 100_000
+
+export interface Formatter {
+  settings: LocaleSettings
+  number(value: number, maximumFractionDigits?: number): string
+  credits(value: number, options?: { compact?: boolean }): string
+  // Converts from USD into the display currency
+  money(usd: number, options?: { compact?: boolean }): string
+  // Takes a fraction: 0.25 is 25%
+  percent(fraction: number, options?: { signed?: boolean }): string
+  date(value: Date | string): string
+  toUsd(amount: number): number
+}
+
+// Amounts are divided by the rate to get back to USD, so it must be a positive number
+export const isValidRate = (rate: unknown): rate is number => typeof rate === 'number' && Number.isFinite(rate) && rate > 0
+
+export function createFormatter(settings: LocaleSettings): Formatter {
+  const { locale, currency } = settings
+  const stored = settings.exchangeRates[currency]
+  const rate = isValidRate(stored) ? stored : 1
+  const cache = new Map<string, Intl.NumberFormat>()
+  const numberFormat = (options: Intl.NumberFormatOptions): Intl.NumberFormat => {
+    const key = JSON.stringify(options)
+    let format = cache.get(key)
+    if (!format) {
+      format = new Intl.NumberFormat(locale, options)
+      cache.set(key, format)
+    }
+    return format
+  }
+  const compact = (value: number, requested?: boolean) => requested === true && Math.abs(value) >= COMPACT_THRESHOLD
+
+  return {
+    settings,
+    number: (value, maximumFractionDigits = 2) => numberFormat({ maximumFractionDigits }).format(value),
+    credits: (value, options) =>
+      compact(value, options?.compact)
+        ? numberFormat({ notation: 'compact', maximumFractionDigits: 1 }).format(value)
+        : numberFormat({ maximumFractionDigits: 2 }).format(value),
+    money: (usd, options) => {
+      const amount = usd * rate
+      return compact(amount, options?.compact)
+        ? numberFormat({ style: 'currency', currency, notation: 'compact', minimumFractionDigits: 0, maximumFractionDigits: 1 }).format(amount)
+        : numberFormat({ style: 'currency', currency }).format(amount)
+    },
+    percent: (fraction, options) =>
+      numberFormat({ style: 'percent', maximumFractionDigits: 0, signDisplay: options?.signed ? 'exceptZero' : 'auto' }).format(fraction),
+    date: (value) => formatDate(typeof value === 'string' ? new Date(value) : value, locale),
+    toUsd: (amount) => amount / rate
+  }
+}
+
+export const isSupportedCurrency = (currency: string): boolean => {
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency })
+    return /^[A-Z]{3}$/.test(currency)
+  } catch {
+    return false
+  }
+}
+
+const STORAGE_KEY = 'lyzr-credit-estimator:locale'
+
+export function loadLocaleSettings(storage: Storage = window.localStorage): LocaleSettings {
+  const raw = storage.getItem(STORAGE_KEY)
+  if (!raw) return DEFAULT_LOCALE_SETTINGS
+  try {
+    const stored = JSON.parse(raw) as Partial<LocaleSettings>
+    const rates = Object.entries(stored.exchangeRates ?? DEFAULT_LOCALE_SETTINGS.exchangeRates)
+    return {
+      locale: typeof stored.locale === 'string' ? stored.locale : DEFAULT_LOCALE_SETTINGS.locale,
+      currency: typeof stored.currency === 'string' ? stored.currency : DEFAULT_LOCALE_SETTINGS.currency,
+      // A rate that is missing, zero or negative falls back to 1 rather than dividing by it
+      exchangeRates: { ...Object.fromEntries(rates.map(([code, rate]) => [code, isValidRate(rate) ? rate : 1])), USD: 1 }
+    }
+  } catch (error) {
+    console.error('Locale settings are unreadable, using defaults:', error)
+    return DEFAULT_LOCALE_SETTINGS
+  }
+}
+
+export function saveLocaleSettings(settings: LocaleSettings, storage: Storage = window.localStorage): void {
+  storage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
@@ -0,0 +1,126 @@
+// The ScenarioParser → CreditCalculator pipeline, shared by the wizard and batch runs
+import { createSessionId, type AgentClient, type AgentName } from './agentClient'
+import { AgentError } from './agentErrors'
+import { requestAgent, type AgentRequestOptions } from './agentRequest'
+import { aggregateLines, newLineItem } from './lineItems'
+import { describeRateCard, type RateCard } from './rateCard'
+import { describeTiers } from './scenarios'
+import { cacheKey, type CachedResult, type ResponseCache } from './responseCache'
+import { validateCreditCalculation, validateScenarioData } from './validation'
+import { withAppWarnings } from './warnings'
+import type { NewEstimate } from './estimateRepository'
+import type { Formatter } from './locale'
+import type { CreditCalculation, LineCalculation, LineItem, ScenarioData, ScenarioTier } from '../types'
+
+export function parseScenarioResult(result: unknown): ScenarioData {
+  const scenario = validateScenarioData(result)
+  if (!scenario.ok) {
+    throw new AgentError('validation', 'The ScenarioParser agent returned malformed data', { fieldErrors: scenario.errors })
+  }
+  return scenario.value
+}
+
+export function parseCalculationResult(result: unknown): CreditCalculation {
+  const validated = validateCreditCalculation(result)
+  if (!validated.ok) {
+    throw new AgentError('validation', 'The CreditCalculator agent returned malformed data', { fieldErrors: validated.errors })
+  }
+  return validated.value
+}
+
+export const calculatorMessage = (
+  businessIdea: string,
+  item: LineItem,
+  scenario: ScenarioData | null,
+  tiers: ScenarioTier[],
+  card: RateCard,
+  planId: string
+): string => `
+      Business idea: ${businessIdea}
+      ${scenario?.scenario_summary ? `Scenario summary: ${scenario.scenario_summary}` : ''}
+      Unit of work: ${item.unitOfWork}
+      Monthly count: ${item.monthlyCount}
+      ${scenario?.user_responses.length ? `User responses: ${JSON.stringify(scenario.user_responses)}` : ''}
+      ${scenario ? `Defaults applied: ${JSON.stringify(scenario.defaults_applied)}` : ''}
+      Rate card: ${describeRateCard(card, planId)}
+      Scenario tiers: ${describeTiers(tiers)}
+      For each scenario tier you can estimate directly, add it to tier_estimates with its name, monthly_credits and assumptions.
+    `
+
+// Continues the line's CreditCalculator session; the reply must be a full calculation again
+export const refinementMessage = (businessIdea: string, item: LineItem, calculation: CreditCalculation, request: string): string => `
+      Business idea: ${businessIdea}
+      Unit of work: ${item.unitOfWork}
+      Monthly count: ${item.monthlyCount}
+      Current estimate: ${JSON.stringify({ calculations: calculation.calculations, assumptions: calculation.assumptions })}
+      Requested change: ${request}
+      Reply with the complete updated estimate in the same JSON format as before.
+    `
+
+export interface IdeaInput {
+  businessIdea: string
+  unitOfWork: string
+  monthlyCount: number
+}
+
+export type PipelineStage = 'parsing' | 'pricing'
+
+export interface PipelineOptions {
+  card: RateCard
+  planId: string
+  // The scenario tiers estimates are reported in
+  tiers: ScenarioTier[]
+  // Numbers in the app's warnings are written in this locale
+  format?: Formatter
+  agentIds: Record<AgentName, string>
+  userId?: string
+  request: Pick<AgentRequestOptions, 'retry' | 'onResponse'> & { timeoutsMs: Record<AgentName, number> }
+  signal?: AbortSignal
+  onStage?: (stage: PipelineStage) => void
+  // Identical ideas reuse earlier results unless `force` is set
+  cache?: ResponseCache
+  force?: boolean
+}
+
+// Runs one idea end to end without asking clarifying questions; the ScenarioParser's
+// defaults stand in for the answers
+export async function estimateIdea(client: AgentClient, input: IdeaInput, options: PipelineOptions): Promise<NewEstimate> {
+  const { card, planId, tiers, format, userId, request, signal, onStage, cache, force } = options
+  const call = <T>(agent: AgentName, message: string, parse: (result: unknown) => T): Promise<CachedResult<T>> => {
+    const load = async () => parse((await requestAgent(client, { agent, message, userId, sessionId: createSessionId(agent), signal }, {
+      timeoutMs: request.timeoutsMs[agent],
+      retry: request.retry,
+      onResponse: request.onResponse
+    })).result)
+    if (cache) return cache.fetch(cacheKey(agent, options.agentIds[agent], message), load, { force })
+    return load().then((value) => ({ value, cached: false, createdAt: new Date().toISOString() }))
+  }
+
+  onStage?.('parsing')
+  const scenario = (await call('scenarioParser', input.businessIdea, parseScenarioResult)).value
+
+  onStage?.('pricing')
+  const item: LineItem = { ...newLineItem(input.unitOfWork, input.monthlyCount), id: 'line-1' }
+  const priced = await call('creditCalculator', calculatorMessage(input.businessIdea, item, scenario, tiers, card, planId), parseCalculationResult)
+  const lines: LineCalculation[] = [{
+    lineId: item.id,
+    source: 'agent',
+    calculation: priced.value,
+    ...(priced.cached && { cachedAt: priced.createdAt })
+  }]
+
+  return {
+    name: input.businessIdea.trim().slice(0, 60),
+    businessIdea: input.businessIdea,
+    unitOfWork: item.unitOfWork,
+    monthlyCount: item.monthlyCount,
+    lineItems: [item],
+    lines,
+    scenario,
+    calculation: withAppWarnings(aggregateLines([item], lines, tiers, card, planId), [item], lines, card, planId, format),
+    agentVersions: { ...options.agentIds },
+    rateCardVersion: card.version,
+    planId,
+    budget: null
+  }
+}
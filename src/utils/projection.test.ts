@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { budgetRates } from './budget'
+import { projectUsage } from './projection'
+import { DEFAULT_RATE_CARD } from './rateCard'
+import type { Calculations } from '../types'
+
+const calculations: Calculations = {
+  per_unit_credits: 10,
+  monthly_total_light: 80_000,
+  monthly_total_heavy: 240_000,
+  dollar_cost_light: 800,
+  dollar_cost_heavy: 2280,
+  legacy_comparison_light: 8_000_000,
+  legacy_comparison_heavy: 24_000_000
+}
+
+describe('usage projection', () => {
+  it('prices each month on the rate card, with the volume discount once growth reaches it', () => {
+    const points = projectUsage({
+      ...budgetRates(calculations, DEFAULT_RATE_CARD, 'payg'),
+      startVolume: 8000,
+      monthlyGrowthRate: 0.25,
+      months: 3
+    })
+
+    // 80k credits pay full price; 100k and 125k get 5% off
+    expect(points.map((point) => [point.lightCredits, point.lightCost])).toEqual([
+      [80_000, 800],
+      [100_000, 950],
+      [125_000, 1187.5]
+    ])
+    expect(points[0].heavyCost).toBe(2280)
+  })
+})
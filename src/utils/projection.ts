@@ -0,0 +1,86 @@
+// Volume and growth projections, recomputed locally from per-unit credits so
+// the agents are not called again
+import type { Calculations } from '../types'
+import { DEFAULT_HEAVY_MULTIPLIER, dollarCost, type VolumeDiscount } from './creditEngine'
+import { coerceNumber } from './validation'
+
+export const MIN_HORIZON_MONTHS = 12
+export const MAX_HORIZON_MONTHS = 36
+
+export interface ProjectionRates {
+  perUnitCredits: number
+  heavyMultiplier: number
+}
+
+export interface ProjectionInput extends ProjectionRates {
+  // Each month is priced on the rate card, so growth can cross into a discount tier
+  creditPriceUsd: number
+  volumeDiscounts: VolumeDiscount[]
+  startVolume: number
+  // Month-over-month growth, e.g. 0.1 for 10%
+  monthlyGrowthRate: number
+  months: number
+}
+
+export interface ProjectionPoint {
+  month: number
+  volume: number
+  lightCredits: number
+  heavyCredits: number
+  lightCost: number
+  heavyCost: number
+}
+
+export interface BudgetCrossing {
+  budget: number
+  // First month (1-based) the scenario's cost exceeds the budget, or null
+  lightMonth: number | null
+  heavyMonth: number | null
+}
+
+// Take the per-unit credits and heavy/light ratio implied by an estimate
+export function deriveRates(calculations: Calculations): ProjectionRates {
+  const { per_unit_credits, monthly_total_light, monthly_total_heavy } = calculations
+  return {
+    perUnitCredits: per_unit_credits,
+    heavyMultiplier: monthly_total_light > 0 ? monthly_total_heavy / monthly_total_light : DEFAULT_HEAVY_MULTIPLIER
+  }
+}
+
+export function projectUsage(input: ProjectionInput): ProjectionPoint[] {
+  const months = Math.min(Math.max(Math.round(input.months), 1), MAX_HORIZON_MONTHS)
+  const points: ProjectionPoint[] = []
+
+  for (let month = 1; month <= months; month++) {
+    const volume = input.startVolume * (1 + input.monthlyGrowthRate) ** (month - 1)
+    const lightCredits = input.perUnitCredits * volume
+    const heavyCredits = lightCredits * input.heavyMultiplier
+    points.push({
+      month,
+      volume,
+      lightCredits,
+      heavyCredits,
+      lightCost: dollarCost(lightCredits, input.creditPriceUsd, input.volumeDiscounts),
+      heavyCost: dollarCost(heavyCredits, input.creditPriceUsd, input.volumeDiscounts)
+    })
+  }
+
+  return points
+}
+
+export function budgetCrossings(points: ProjectionPoint[], budgets: number[]): BudgetCrossing[] {
+  return budgets.map((budget) => ({
+    budget,
+    lightMonth: points.find((p) => p.lightCost > budget)?.month ?? null,
+    heavyMonth: points.find((p) => p.heavyCost > budget)?.month ?? null
+  }))
+}
+
+// "500, $1k, 2,500" -> [500, 1000, 2500]
+export function parseBudgets(text: string): number[] {
+  return text
+    .split(/[;\s]+|,\s+/)
+    .map((part) => coerceNumber(part))
+    .filter((value): value is number => value !== null && value > 0)
+    .sort((a, b) => a - b)
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_RATE_CARD, parseRateCardJson, toRateCardJson } from './rateCard'
+
+describe('rate card import', () => {
+  it('round-trips a published card', () => {
+    expect(parseRateCardJson(toRateCardJson(DEFAULT_RATE_CARD))).toEqual({ ok: true, card: DEFAULT_RATE_CARD })
+  })
+
+  it('rejects prices and multipliers that are not above zero', () => {
+    const [payg, ...plans] = DEFAULT_RATE_CARD.plans
+    const card = { ...DEFAULT_RATE_CARD, plans: [{ ...payg, creditPriceUsd: 0 }, ...plans], heavyMultiplier: -3, legacyMultiplier: 0 }
+
+    const result = parseRateCardJson(toRateCardJson(card))
+    expect(result.ok || result.errors).toEqual([
+      { path: 'plans[0].creditPriceUsd', message: 'must be greater than zero' },
+      { path: 'heavyMultiplier', message: 'must be greater than zero' },
+      { path: 'legacyMultiplier', message: 'must be greater than zero' }
+    ])
+  })
+})
@@ -0,0 +1,208 @@
+// Versioned rate cards: what each agent action costs in credits, what a credit
+// costs in dollars on each plan, volume discounts and the legacy multiplier.
+// Estimates record the version they were priced under, and old versions are
+// kept so those quotes can be reproduced later.
+import {
+  DEFAULT_ACTION_COSTS,
+  DEFAULT_ACTION_MIX,
+  DEFAULT_CREDIT_PRICE_USD,
+  DEFAULT_HEAVY_MULTIPLIER,
+  DEFAULT_LEGACY_MULTIPLIER,
+  dollarCost,
+  legacyCredits,
+  type ActionCostTable,
+  type ActionMix,
+  type PricingInput,
+  type VolumeDiscount
+} from './creditEngine'
+import { validateRateCard, type FieldError } from './validation'
+import type { Calculations } from '../types'
+
+export interface PricingPlan {
+  id: string
+  name: string
+  creditPriceUsd: number
+}
+
+export interface RateCard {
+  version: string
+  effectiveFrom: string
+  actionCosts: ActionCostTable
+  actionMix: ActionMix
+  heavyMultiplier: number
+  plans: PricingPlan[]
+  defaultPlanId: string
+  volumeDiscounts: VolumeDiscount[]
+  legacyMultiplier: number
+  // Shown under every estimate priced with this card
+  disclaimer: string
+}
+
+export const DEFAULT_RATE_CARD: RateCard = {
+  version: '2025.1',
+  effectiveFrom: '2025-01-01',
+  actionCosts: DEFAULT_ACTION_COSTS,
+  actionMix: DEFAULT_ACTION_MIX,
+  heavyMultiplier: DEFAULT_HEAVY_MULTIPLIER,
+  plans: [
+    { id: 'payg', name: 'Pay as you go', creditPriceUsd: DEFAULT_CREDIT_PRICE_USD },
+    { id: 'pro', name: 'Pro', creditPriceUsd: 0.008 },
+    { id: 'enterprise', name: 'Enterprise', creditPriceUsd: 0.006 }
+  ],
+  defaultPlanId: 'payg',
+  volumeDiscounts: [
+    { minMonthlyCredits: 100_000, discountPercent: 5 },
+    { minMonthlyCredits: 1_000_000, discountPercent: 10 }
+  ],
+  legacyMultiplier: DEFAULT_LEGACY_MULTIPLIER,
+  disclaimer: 'Agent-action credits only. AI model tokens billed separately at usage rates.'
+}
+
+export const RATE_CARD_FORMAT = 'lyzr-rate-card'
+
+export function findPlan(card: RateCard, planId: string): PricingPlan {
+  return card.plans.find((plan) => plan.id === planId)
+    ?? card.plans.find((plan) => plan.id === card.defaultPlanId)
+    ?? card.plans[0]
+}
+
+// Everything the local engine needs besides the workload itself
+export function pricingInput(card: RateCard, planId: string): Omit<PricingInput, 'unitOfWork' | 'monthlyCount'> {
+  return {
+    actionCosts: card.actionCosts,
+    actionMix: card.actionMix,
+    heavyMultiplier: card.heavyMultiplier,
+    creditPriceUsd: findPlan(card, planId).creditPriceUsd,
+    volumeDiscounts: card.volumeDiscounts,
+    legacyMultiplier: card.legacyMultiplier
+  }
+}
+
+// The agent estimates credits; dollars and the legacy comparison always come
+// from the rate card so every quote uses the published prices
+export function priceCalculations(calculations: Calculations, card: RateCard, planId: string): Calculations {
+  const { creditPriceUsd } = findPlan(card, planId)
+  const { monthly_total_light: light, monthly_total_heavy: heavy } = calculations
+  return {
+    ...calculations,
+    dollar_cost_light: dollarCost(light, creditPriceUsd, card.volumeDiscounts),
+    dollar_cost_heavy: dollarCost(heavy, creditPriceUsd, card.volumeDiscounts),
+    legacy_comparison_light: legacyCredits(light, card.legacyMultiplier),
+    legacy_comparison_heavy: legacyCredits(heavy, card.legacyMultiplier)
+  }
+}
+
+// A compact description of the card for the CreditCalculator prompt
+export function describeRateCard(card: RateCard, planId: string): string {
+  return JSON.stringify({
+    rate_card_version: card.version,
+    action_costs: card.actionCosts,
+    heavy_multiplier: card.heavyMultiplier,
+    credit_price_usd: findPlan(card, planId).creditPriceUsd,
+    legacy_multiplier: card.legacyMultiplier
+  })
+}
+
+export function toRateCardJson(card: RateCard): string {
+  return JSON.stringify({ format: RATE_CARD_FORMAT, ...card }, null, 2)
+}
+
+export function parseRateCardJson(text: string): { ok: true; card: RateCard } | { ok: false; errors: FieldError[] } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { ok: false, errors: [{ path: '', message: 'is not valid JSON' }] }
+  }
+
+  const format = (parsed as { format?: unknown } | null)?.format
+  if (format !== undefined && format !== RATE_CARD_FORMAT) {
+    return { ok: false, errors: [{ path: 'format', message: `must be "${RATE_CARD_FORMAT}"` }] }
+  }
+  const card = validateRateCard(parsed)
+  return card.ok ? { ok: true, card: card.value } : card
+}
+
+export interface RateCardRepository {
+  list(): Promise<RateCard[]>
+  get(version: string): Promise<RateCard | null>
+  active(): Promise<RateCard>
+  // Publishing never overwrites: a changed card needs a new version
+  publish(card: RateCard): Promise<RateCard>
+  activate(version: string): Promise<RateCard>
+}
+
+const STORAGE_KEY = 'lyzr-credit-estimator:rate-cards'
+const STORAGE_VERSION = 1
+
+interface StoredRateCards {
+  version: number
+  activeVersion: string
+  cards: RateCard[]
+}
+
+export class LocalStorageRateCardRepository implements RateCardRepository {
+  private readonly storage: Storage
+  private readonly key: string
+
+  constructor(storage: Storage = window.localStorage, key = STORAGE_KEY) {
+    this.storage = storage
+    this.key = key
+  }
+
+  // The built-in card is always available so estimates priced with it stay reproducible
+  private read(): StoredRateCards {
+    const fallback: StoredRateCards = { version: STORAGE_VERSION, activeVersion: DEFAULT_RATE_CARD.version, cards: [] }
+    const raw = this.storage.getItem(this.key)
+    let stored = fallback
+    if (raw) {
+      try {
+        stored = JSON.parse(raw) as StoredRateCards
+      } catch (error) {
+        console.error('Saved rate cards are unreadable, using the built-in card:', error)
+      }
+    }
+    const cards = Array.isArray(stored.cards) ? stored.cards : []
+    return {
+      ...stored,
+      cards: cards.some((card) => card.version === DEFAULT_RATE_CARD.version) ? cards : [DEFAULT_RATE_CARD, ...cards]
+    }
+  }
+
+  private write(stored: StoredRateCards): void {
+    this.storage.setItem(this.key, JSON.stringify({ ...stored, version: STORAGE_VERSION }))
+  }
+
+  async list(): Promise<RateCard[]> {
+    return this.read().cards.sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))
+  }
+
+  async get(version: string): Promise<RateCard | null> {
+    return this.read().cards.find((card) => card.version === version) ?? null
+  }
+
+  async active(): Promise<RateCard> {
+    const stored = this.read()
+    return stored.cards.find((card) => card.version === stored.activeVersion) ?? DEFAULT_RATE_CARD
+  }
+
+  async publish(card: RateCard): Promise<RateCard> {
+    const stored = this.read()
+    const existing = stored.cards.find((c) => c.version === card.version)
+    if (existing && JSON.stringify(existing) !== JSON.stringify(card)) {
+      throw new Error(`Rate card version "${card.version}" already exists; give the changed card a new version`)
+    }
+    if (!existing) this.write({ ...stored, cards: [...stored.cards, card] })
+    return card
+  }
+
+  async activate(version: string): Promise<RateCard> {
+    const stored = this.read()
+    const card = stored.cards.find((c) => c.version === version)
+    if (!card) throw new Error(`No rate card with version "${version}"`)
+    this.write({ ...stored, activeVersion: version })
+    return card
+  }
+}
+
+export const rateCardRepository: RateCardRepository = new LocalStorageRateCardRepository()
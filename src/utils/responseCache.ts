@@ -0,0 +1,151 @@
+// Cache of validated agent results, keyed on the agent ID and a normalized
+// message. Identical requests in flight share one call, and results persist in
+// IndexedDB so repeated demos and re-runs are instant and cost nothing.
+import type { AgentName } from './agentClient'
+
+export interface CacheEntry {
+  key: string
+  value: unknown
+  createdAt: number
+  expiresAt: number
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>
+  set(entry: CacheEntry): Promise<void>
+  clear(): Promise<void>
+}
+
+export interface CachedResult<T> {
+  value: T
+  cached: boolean
+  // When the value was generated by the agent
+  createdAt: string
+}
+
+// Whitespace and case do not change what the agent is asked, so they do not change the key
+export const normalizeMessage = (message: string): string =>
+  message
+    .split('\n')
+    .map((line) => line.trim().replace(/\s+/g, ' '))
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase()
+
+export const cacheKey = (agent: AgentName, agentId: string, message: string): string =>
+  `${agent}:${agentId}:${normalizeMessage(message)}`
+
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>()
+
+  async get(key: string): Promise<CacheEntry | null> {
+    return this.entries.get(key) ?? null
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    this.entries.set(entry.key, entry)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+}
+
+const DB_NAME = 'lyzr-credit-estimator'
+const DB_VERSION = 1
+const STORE_NAME = 'agent-responses'
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+export class IndexedDbCacheStore implements CacheStore {
+  private readonly db: Promise<IDBDatabase>
+
+  constructor(factory: IDBFactory = indexedDB, name = DB_NAME) {
+    const request = factory.open(name, DB_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+      }
+    }
+    this.db = settle(request)
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    return (await this.db).transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    return ((await settle((await this.store('readonly')).get(key))) as CacheEntry | undefined) ?? null
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    await settle((await this.store('readwrite')).put(entry))
+  }
+
+  async clear(): Promise<void> {
+    await settle((await this.store('readwrite')).clear())
+  }
+}
+
+export const createCacheStore = (): CacheStore =>
+  typeof indexedDB === 'undefined' ? new MemoryCacheStore() : new IndexedDbCacheStore()
+
+export class ResponseCache {
+  private readonly store: CacheStore
+  private readonly ttlMs: number
+  private readonly inFlight = new Map<string, Promise<CachedResult<unknown>>>()
+
+  constructor(store: CacheStore, ttlMs: number) {
+    this.store = store
+    this.ttlMs = ttlMs
+  }
+
+  // A broken store only costs a cache miss; the agent call still goes through
+  private async read(key: string): Promise<CacheEntry | null> {
+    try {
+      const entry = await this.store.get(key)
+      return entry && entry.expiresAt > Date.now() ? entry : null
+    } catch (error) {
+      console.warn('Response cache read failed:', error)
+      return null
+    }
+  }
+
+  private async write(key: string, value: unknown, createdAt: number): Promise<void> {
+    try {
+      await this.store.set({ key, value, createdAt, expiresAt: createdAt + this.ttlMs })
+    } catch (error) {
+      console.warn('Response cache write failed:', error)
+    }
+  }
+
+  // `load` should resolve only with validated values, so nothing malformed is ever cached.
+  // `force` skips the stored value but still shares a call already in flight.
+  fetch<T>(key: string, load: () => Promise<T>, options: { force?: boolean } = {}): Promise<CachedResult<T>> {
+    const pending = this.inFlight.get(key)
+    if (pending) return pending as Promise<CachedResult<T>>
+
+    const run = async (): Promise<CachedResult<T>> => {
+      if (this.ttlMs > 0 && !options.force) {
+        const entry = await this.read(key)
+        if (entry) return { value: entry.value as T, cached: true, createdAt: new Date(entry.createdAt).toISOString() }
+      }
+      const value = await load()
+      const createdAt = Date.now()
+      if (this.ttlMs > 0) await this.write(key, value, createdAt)
+      return { value, cached: false, createdAt: new Date(createdAt).toISOString() }
+    }
+
+    const request = run().finally(() => this.inFlight.delete(key))
+    this.inFlight.set(key, request)
+    return request
+  }
+
+  clear(): Promise<void> {
+    return this.store.clear()
+  }
+}
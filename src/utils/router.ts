@@ -0,0 +1,62 @@
+// Hash-based routes for the wizard, plus shareable estimate links that carry
+// the whole estimate in a compressed URL fragment
+import type { Step } from '../types'
+import type { NewEstimate } from './estimateRepository'
+import { parseJsonDocument, toJsonDocument, type ImportResult } from './exporters'
+
+export type Route =
+  | { kind: 'step'; step: Step }
+  | { kind: 'shared'; payload: string }
+  | { kind: 'none' }
+
+// 'processing' is transient and never gets its own URL
+export const ROUTABLE_STEPS: Step[] = ['idea', 'clarify', 'workload', 'results', 'compare', 'rates', 'batch', 'tiers']
+
+const SHARED_PREFIX = '#/shared/'
+
+export const hashForStep = (step: Step): string => `#/${step}`
+
+export function parseHash(hash: string): Route {
+  if (hash.startsWith(SHARED_PREFIX)) {
+    return { kind: 'shared', payload: hash.slice(SHARED_PREFIX.length) }
+  }
+  const step = hash.replace(/^#\/?/, '') as Step
+  return ROUTABLE_STEPS.includes(step) ? { kind: 'step', step } : { kind: 'none' }
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+async function pipeThrough(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// The payload is the same versioned JSON document used for file exports
+export async function encodeEstimate(estimate: NewEstimate): Promise<string> {
+  const json = new TextEncoder().encode(toJsonDocument(estimate))
+  return toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')))
+}
+
+export async function decodeEstimate(payload: string): Promise<ImportResult> {
+  try {
+    const json = await pipeThrough(fromBase64Url(payload), new DecompressionStream('deflate-raw'))
+    return parseJsonDocument(new TextDecoder().decode(json))
+  } catch {
+    return { ok: false, errors: [{ path: 'link', message: 'is damaged or incomplete' }] }
+  }
+}
+
+export async function shareUrl(estimate: NewEstimate): Promise<string> {
+  const { origin, pathname, search } = window.location
+  return `${origin}${pathname}${search}${SHARED_PREFIX}${await encodeEstimate(estimate)}`
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { computeCredits } from './creditEngine'
+import { aggregateLines, localLineCalculation, newLineItem } from './lineItems'
+import { DEFAULT_RATE_CARD, priceCalculations } from './rateCard'
+import {
+  DEFAULT_SCENARIO_TIERS,
+  EXTENDED_SCENARIO_TIERS,
+  loadScenarioTiers,
+  priceTiers,
+  saveScenarioTiers,
+  tiersOf
+} from './scenarios'
+import { validateScenarioTiers } from './validation'
+import type { Calculations, LineCalculation } from '../types'
+
+const card = DEFAULT_RATE_CARD
+
+const calculations: Calculations = {
+  per_unit_credits: 10,
+  monthly_total_light: 100_000,
+  monthly_total_heavy: 300_000,
+  dollar_cost_light: 950,
+  dollar_cost_heavy: 2850,
+  legacy_comparison_light: 10_000_000,
+  legacy_comparison_heavy: 30_000_000
+}
+
+describe('scenario tiers', () => {
+  it('reports the default tiers exactly as the light and heavy figures', () => {
+    const item = newLineItem('one support email', 10_000)
+    const lines: LineCalculation[] = [{ lineId: item.id, source: 'local', calculation: localLineCalculation(item, card, 'payg') }]
+    const { calculations: totals, tiers } = aggregateLines([item], lines, DEFAULT_SCENARIO_TIERS, card, 'payg')
+
+    expect(tiers?.map((tier) => [tier.id, tier.monthly_credits, tier.dollar_cost, tier.legacy_comparison, tier.source])).toEqual([
+      ['light', totals.monthly_total_light, totals.dollar_cost_light, totals.legacy_comparison_light, 'app'],
+      ['heavy', totals.monthly_total_heavy, totals.dollar_cost_heavy, totals.legacy_comparison_heavy, 'app']
+    ])
+  })
+
+  it('scales each tier from its basis scenario and prices it on the rate card', () => {
+    const tiers = priceTiers(EXTENDED_SCENARIO_TIERS, calculations, [], card, 'payg')
+
+    // Each tier gets the volume discount for its own credits: 5% from 100k
+    expect(tiers.map((tier) => [tier.label, tier.monthly_credits, tier.dollar_cost])).toEqual([
+      ['Pilot', 25_000, 250],
+      ['Typical', 100_000, 950],
+      ['Peak', 300_000, 2850],
+      ['Worst Case', 600_000, 5700]
+    ])
+  })
+
+  it('rounds the legacy comparison the same way as the credit engine', () => {
+    const fractional = { ...card, legacyMultiplier: 1.5 }
+    // 3 units at 2.95 credits is 8.85 credits, 13.275 at legacy prices
+    const engine = computeCredits({ unitOfWork: 'one chat', monthlyCount: 3, legacyMultiplier: 1.5 })
+    const [light] = priceTiers(DEFAULT_SCENARIO_TIERS, engine, [], fractional, 'payg')
+
+    expect(engine.legacy_comparison_light).toBe(13.275)
+    expect(priceCalculations(engine, fractional, 'payg').legacy_comparison_light).toBe(13.275)
+    expect(light.legacy_comparison).toBe(13.275)
+  })
+
+  it('takes the agent figure for a tier only when every line has one', () => {
+    const peak = (credits: number, note: string) => ({ name: 'peak', monthly_credits: credits, assumptions: [note] })
+
+    const both = priceTiers(EXTENDED_SCENARIO_TIERS, calculations, [[peak(50_000, 'Black Friday')], [peak(20_000, 'Month end')]], card, 'payg')
+    expect(both[2]).toMatchObject({ label: 'Peak', monthly_credits: 70_000, source: 'agent', agent_assumptions: ['Black Friday', 'Month end'] })
+    expect(both[0]).toMatchObject({ label: 'Pilot', monthly_credits: 25_000, source: 'app', agent_assumptions: [] })
+
+    const one = priceTiers(EXTENDED_SCENARIO_TIERS, calculations, [[peak(50_000, 'Black Friday')], undefined], card, 'payg')
+    expect(one[2]).toMatchObject({ monthly_credits: 300_000, source: 'app' })
+  })
+
+  it('reads estimates saved before tiers existed as light and heavy', () => {
+    const tiers = tiersOf({ summary: { light_scenario: '', heavy_scenario: '' }, calculations, assumptions: [], warnings: [] })
+    expect(tiers.map((tier) => [tier.label, tier.monthly_credits, tier.dollar_cost])).toEqual([
+      ['Light Usage', 100_000, 950],
+      ['Heavy Usage', 300_000, 2850]
+    ])
+  })
+
+  it('rejects tier sets that cannot be priced', () => {
+    const tier = EXTENDED_SCENARIO_TIERS[0]
+    expect(validateScenarioTiers([])).toEqual({ ok: false, errors: [{ path: 'tiers', message: 'must contain at least one tier' }] })
+
+    const invalid = validateScenarioTiers([tier, { ...tier, id: 'again', label: ' PILOT ', basis: 'peak', multiplier: 0 }])
+    expect(invalid.ok || invalid.errors.map((error) => error.path)).toEqual(['tiers[1].basis', 'tiers[1].multiplier', 'tiers[1].label'])
+  })
+
+  it('rejects tiers without an id or with an id another tier already has', () => {
+    const [pilot, typical, peak] = EXTENDED_SCENARIO_TIERS
+    const result = validateScenarioTiers([pilot, { ...typical, id: ' ' }, { ...peak, id: pilot.id }])
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        { path: 'tiers[1].id', message: 'is missing' },
+        { path: 'tiers[2].id', message: 'repeats "pilot"' }
+      ]
+    })
+  })
+
+  it('keeps the default tier set in local storage and ignores unusable stored sets', () => {
+    expect(loadScenarioTiers()).toBe(DEFAULT_SCENARIO_TIERS)
+
+    saveScenarioTiers(EXTENDED_SCENARIO_TIERS)
+    expect(loadScenarioTiers()).toEqual(EXTENDED_SCENARIO_TIERS)
+
+    window.localStorage.setItem('lyzr-credit-estimator:scenario-tiers', '[{"label":"Peak","multiplier":-1}]')
+    expect(loadScenarioTiers()).toBe(DEFAULT_SCENARIO_TIERS)
+  })
+})
@@ -0,0 +1,135 @@
+// The scenario tiers an estimate is reported in. The agents always price a
+// light and a heavy scenario; each tier scales one of them by its own
+// multiplier, unless the agent sent a figure for the tier itself. Result
+// screens and exports render from the tier list rather than per-scenario code.
+import { dollarCost, legacyCredits } from './creditEngine'
+import { findPlan, type RateCard } from './rateCard'
+import { validateScenarioTiers } from './validation'
+import type { ScenarioName } from './assumptions'
+import type { Calculations, CreditCalculation, ScenarioTier, TierEstimate, TierResult } from '../types'
+
+export const DEFAULT_SCENARIO_TIERS: ScenarioTier[] = [
+  { id: 'light', label: 'Light Usage', basis: 'light', multiplier: 1, assumptions: [] },
+  { id: 'heavy', label: 'Heavy Usage', basis: 'heavy', multiplier: 1, assumptions: [] }
+]
+
+// A starting point for teams that plan in more than two levels
+export const EXTENDED_SCENARIO_TIERS: ScenarioTier[] = [
+  { id: 'pilot', label: 'Pilot', basis: 'light', multiplier: 0.25, assumptions: ['One team trials the workflow at a quarter of the volume'] },
+  { id: 'typical', label: 'Typical', basis: 'light', multiplier: 1, assumptions: [] },
+  { id: 'peak', label: 'Peak', basis: 'heavy', multiplier: 1, assumptions: [] },
+  { id: 'worst_case', label: 'Worst Case', basis: 'heavy', multiplier: 2, assumptions: ['Peak volume doubled by failures and reprocessing'] }
+]
+
+export const newTierId = (): string => `tier-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+
+export interface TierAccent {
+  // Accent for borders and highlights, and a darker shade of it for text
+  color: string
+  textColor: string
+}
+
+// Ordered from lightest to heaviest usage, so tiers listed that way read as a scale
+const TIER_ACCENTS: TierAccent[] = [
+  { color: '#27AE60', textColor: '#27AE60' },
+  { color: '#F1C40F', textColor: '#BF9A29' },
+  { color: '#E67E22', textColor: '#C0651A' },
+  { color: '#E74C3C', textColor: '#E74C3C' },
+  { color: '#6C63FF', textColor: '#6C63FF' },
+  { color: '#2980B9', textColor: '#2980B9' }
+]
+
+export const tierAccent = (index: number): TierAccent => TIER_ACCENTS[index % TIER_ACCENTS.length]
+
+// Just the settings of a tier, without any figures priced for it
+export const tierDefinition = ({ id, label, basis, multiplier, assumptions }: ScenarioTier): ScenarioTier =>
+  ({ id, label, basis, multiplier, assumptions })
+
+// "heavy scenario × 2" style shorthand for how a tier is derived
+export const describeTierBasis = (tier: ScenarioTier): string =>
+  tier.multiplier === 1 ? `${tier.basis} scenario` : `${tier.basis} scenario × ${tier.multiplier}`
+
+// The tiers for the CreditCalculator prompt
+export const describeTiers = (tiers: ScenarioTier[]): string =>
+  JSON.stringify(tiers.map(({ label, basis, multiplier, assumptions }) => ({ name: label, scales: `${basis}_scenario`, multiplier, assumptions })))
+
+const basisFigures = (calculations: Calculations, basis: ScenarioName) =>
+  basis === 'light'
+    ? {
+        monthly_credits: calculations.monthly_total_light,
+        dollar_cost: calculations.dollar_cost_light,
+        legacy_comparison: calculations.legacy_comparison_light
+      }
+    : {
+        monthly_credits: calculations.monthly_total_heavy,
+        dollar_cost: calculations.dollar_cost_heavy,
+        legacy_comparison: calculations.legacy_comparison_heavy
+      }
+
+const sameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// The agent's figure for a tier across all lines; only when every line has one
+function agentTier(tier: ScenarioTier, estimates: (TierEstimate[] | undefined)[]): { credits: number; assumptions: string[] } | null {
+  if (!estimates.length) return null
+  let credits = 0
+  const assumptions: string[] = []
+  for (const list of estimates) {
+    const match = list?.find((estimate) => sameName(estimate.name, tier.label))
+    if (!match) return null
+    credits += match.monthly_credits
+    assumptions.push(...match.assumptions)
+  }
+  return { credits, assumptions }
+}
+
+// Prices every tier from the rolled-up light and heavy totals. `estimates` holds
+// each line's tier estimates from the agent, if any.
+export function priceTiers(
+  tiers: ScenarioTier[],
+  calculations: Calculations,
+  estimates: (TierEstimate[] | undefined)[],
+  card: RateCard,
+  planId: string
+): TierResult[] {
+  const { creditPriceUsd } = findPlan(card, planId)
+  return tiers.map((tier) => {
+    const agent = agentTier(tier, estimates)
+    const credits = agent?.credits ?? basisFigures(calculations, tier.basis).monthly_credits * tier.multiplier
+    return {
+      ...tierDefinition(tier),
+      monthly_credits: credits,
+      dollar_cost: dollarCost(credits, creditPriceUsd, card.volumeDiscounts),
+      legacy_comparison: legacyCredits(credits, card.legacyMultiplier),
+      source: agent ? 'agent' : 'app',
+      agent_assumptions: [...new Set(agent?.assumptions ?? [])]
+    }
+  })
+}
+
+// Estimates saved before tiers existed are reported in the default light and heavy tiers
+export const tiersOf = (calculation: CreditCalculation): TierResult[] =>
+  calculation.tiers ?? DEFAULT_SCENARIO_TIERS.map((tier) => ({
+    ...tier,
+    ...basisFigures(calculation.calculations, tier.basis),
+    source: 'app',
+    agent_assumptions: []
+  }))
+
+const STORAGE_KEY = 'lyzr-credit-estimator:scenario-tiers'
+
+export function loadScenarioTiers(storage: Storage = window.localStorage): ScenarioTier[] {
+  const raw = storage.getItem(STORAGE_KEY)
+  if (!raw) return DEFAULT_SCENARIO_TIERS
+  try {
+    const tiers = validateScenarioTiers(JSON.parse(raw))
+    if (tiers.ok) return tiers.value
+    console.error('Stored scenario tiers are invalid, using defaults:', tiers.errors)
+  } catch (error) {
+    console.error('Scenario tiers are unreadable, using defaults:', error)
+  }
+  return DEFAULT_SCENARIO_TIERS
+}
+
+export function saveScenarioTiers(tiers: ScenarioTier[], storage: Storage = window.localStorage): void {
+  storage.setItem(STORAGE_KEY, JSON.stringify(tiers))
+}
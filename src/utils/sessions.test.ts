@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { createConversation, LocalStorageConversationRepository, recordExchange } from './sessions'
+
+const response = '{"calculations": {}}'.padEnd(2000, ' ')
+
+describe('conversation repository', () => {
+  it('keeps raw agent responses whole only in the latest conversations', async () => {
+    const repository = new LocalStorageConversationRepository()
+    const conversations = Array.from({ length: 6 }, () =>
+      recordExchange(createConversation('user-1@app.com'), {
+        agent: 'creditCalculator',
+        attempt: 0,
+        message: 'Price one support email',
+        raw: response,
+        parsed: { success: true, data: {}, partial: false },
+        receivedAt: new Date().toISOString()
+      }))
+    for (const conversation of conversations) await repository.save(conversation)
+
+    const oldest = await repository.get(conversations[0].id)
+    expect(oldest?.transcript.map((entry) => entry.text.length)).toEqual(['Price one support email'.length, 500 + '… (trimmed)'.length])
+    expect((await repository.get(conversations[5].id))?.transcript[1].text).toBe(response)
+  })
+})
@@ -0,0 +1,130 @@
+// Agent session continuity. One stable user identity per browser, and one
+// conversation per estimate holding the session ID each agent is spoken to in
+// and a local transcript of every message sent and received.
+import { createSessionId, type AgentName } from './agentClient'
+import type { AgentExchange } from './agentRequest'
+
+export interface TranscriptEntry {
+  agent: AgentName
+  sessionId: string
+  role: 'user' | 'agent'
+  text: string
+  at: string
+}
+
+// A follow-up asked from the results page and what came of it
+export interface Refinement {
+  request: string
+  reply: string
+  ok: boolean
+  at: string
+}
+
+export interface Conversation {
+  id: string
+  userId: string
+  sessionIds: Record<AgentName, string>
+  transcript: TranscriptEntry[]
+  refinements: Refinement[]
+  createdAt: string
+}
+
+export interface ConversationRepository {
+  userId(): Promise<string>
+  get(id: string): Promise<Conversation | null>
+  save(conversation: Conversation): Promise<void>
+}
+
+const USER_KEY = 'lyzr-credit-estimator:user-id'
+const STORAGE_KEY = 'lyzr-credit-estimator:conversations'
+// Oldest conversations are dropped past this, so transcripts cannot fill localStorage
+const MAX_CONVERSATIONS = 50
+// Raw agent responses are the bulk of a transcript; only the latest conversations keep them whole
+const FULL_TRANSCRIPTS = 5
+const RESPONSE_EXCERPT_CHARS = 500
+
+const randomId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+export function createConversation(userId: string): Conversation {
+  return {
+    id: `conversation-${randomId()}`,
+    userId,
+    sessionIds: {
+      scenarioParser: createSessionId('scenarioParser'),
+      creditCalculator: createSessionId('creditCalculator')
+    },
+    transcript: [],
+    refinements: [],
+    createdAt: new Date().toISOString()
+  }
+}
+
+// Every attempt is recorded, retries included, so the transcript matches what the agent saw
+export const recordExchange = (conversation: Conversation, exchange: AgentExchange): Conversation => ({
+  ...conversation,
+  transcript: [
+    ...conversation.transcript,
+    { agent: exchange.agent, sessionId: conversation.sessionIds[exchange.agent], role: 'user', text: exchange.message, at: exchange.receivedAt },
+    { agent: exchange.agent, sessionId: conversation.sessionIds[exchange.agent], role: 'agent', text: exchange.raw, at: exchange.receivedAt }
+  ]
+})
+
+export const recordRefinement = (conversation: Conversation, refinement: Omit<Refinement, 'at'>): Conversation => ({
+  ...conversation,
+  refinements: [...conversation.refinements, { ...refinement, at: new Date().toISOString() }]
+})
+
+const trimResponses = (conversation: Conversation): Conversation => ({
+  ...conversation,
+  transcript: conversation.transcript.map((entry) =>
+    entry.role === 'agent' && entry.text.length > RESPONSE_EXCERPT_CHARS
+      ? { ...entry, text: `${entry.text.slice(0, RESPONSE_EXCERPT_CHARS)}… (trimmed)` }
+      : entry)
+})
+
+export class LocalStorageConversationRepository implements ConversationRepository {
+  private readonly storage: Storage
+  private readonly key: string
+
+  constructor(storage: Storage = window.localStorage, key = STORAGE_KEY) {
+    this.storage = storage
+    this.key = key
+  }
+
+  private read(): Conversation[] {
+    const raw = this.storage.getItem(this.key)
+    if (!raw) return []
+    try {
+      const stored = JSON.parse(raw) as { conversations?: Conversation[] }
+      return Array.isArray(stored.conversations) ? stored.conversations : []
+    } catch (error) {
+      console.error('Saved conversations are unreadable, starting fresh:', error)
+      return []
+    }
+  }
+
+  async userId(): Promise<string> {
+    const existing = this.storage.getItem(USER_KEY)
+    if (existing) return existing
+    const userId = `user-${randomId()}@app.com`
+    this.storage.setItem(USER_KEY, userId)
+    return userId
+  }
+
+  async get(id: string): Promise<Conversation | null> {
+    return this.read().find((conversation) => conversation.id === id) ?? null
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    const others = this.read().filter((existing) => existing.id !== conversation.id)
+    const conversations = [...others, conversation]
+      .slice(-MAX_CONVERSATIONS)
+      .map((existing, i, all) => (i < all.length - FULL_TRANSCRIPTS ? trimResponses(existing) : existing))
+    this.storage.setItem(this.key, JSON.stringify({ conversations }))
+  }
+}
+
+export const conversationRepository: ConversationRepository = new LocalStorageConversationRepository()
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { validateCreditCalculation } from './validation'
+
+const calculation = {
+  summary: { light_scenario: '', heavy_scenario: '' },
+  calculations: {
+    per_unit_credits: 2.95,
+    monthly_total_light: 8850,
+    monthly_total_heavy: 26_550,
+    dollar_cost_light: 88.5,
+    dollar_cost_heavy: 265.5,
+    legacy_comparison_light: 885_000,
+    legacy_comparison_heavy: 2_655_000
+  },
+  assumptions: [],
+  warnings: ['Volumes are a guess', { severity: 'critical', code: 'checked', message: 'Figures verified', source: 'app' }]
+}
+
+describe('validateCreditCalculation', () => {
+  it('marks every warning in agent output as raised by the agent, whatever source it claims', () => {
+    const result = validateCreditCalculation(calculation)
+    expect(result.ok && result.value.warnings.map((w) => [w.code, w.severity, w.source])).toEqual([
+      ['agent_warning', 'warning', 'agent'],
+      ['checked', 'critical', 'agent']
+    ])
+  })
+})
@@ -0,0 +1,342 @@
+// Runtime validation for agent results. Agents return loosely shaped JSON, so
+// these validators coerce what they safely can (numeric strings, camelCase
+// keys, single strings where lists are expected) and report the rest as
+// field-level errors.
+import type {
+  Calculations,
+  CreditCalculation,
+  EstimateWarning,
+  ScenarioData,
+  ScenarioParameters,
+  ScenarioTier,
+  TierEstimate,
+  TierResult
+} from '../types'
+import type { RateCard } from './rateCard'
+import { agentWarning, WARNING_SEVERITIES } from './warnings'
+
+export interface FieldError {
+  path: string
+  message: string
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] }
+
+type Json = Record<string, unknown>
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export const toSnakeCase = (key: string): string =>
+  key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[\s-]+/g, '_')
+    .toLowerCase()
+
+// Shallow key normalization; nested objects are normalized by their own readers
+export function normalizeKeys(value: Json): Json {
+  const result: Json = {}
+  for (const [key, entry] of Object.entries(value)) {
+    result[toSnakeCase(key)] = entry
+  }
+  return result
+}
+
+// Accepts numbers and strings like "29,500", "$295.00" or "1.2k"
+export function coerceNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string') return null
+
+  const match = value.trim().replace(/[,\s$€£₹]/g, '').match(/^(-?\d+(?:\.\d+)?)([kKmM]?)$/)
+  if (!match) return null
+
+  const base = Number(match[1])
+  const suffix = match[2].toLowerCase()
+  return suffix === 'k' ? base * 1_000 : suffix === 'm' ? base * 1_000_000 : base
+}
+
+class Reader {
+  readonly errors: FieldError[] = []
+
+  fail(path: string, message: string): void {
+    this.errors.push({ path, message })
+  }
+
+  object(value: unknown, path: string): Json | null {
+    if (!isObject(value)) {
+      this.fail(path, value === undefined ? 'is missing' : 'must be an object')
+      return null
+    }
+    return normalizeKeys(value)
+  }
+
+  string(value: unknown, path: string, fallback?: string): string {
+    if (typeof value === 'string') return value
+    if (typeof value === 'number') return String(value)
+    if (value === undefined && fallback !== undefined) return fallback
+    this.fail(path, value === undefined ? 'is missing' : 'must be a string')
+    return ''
+  }
+
+  number(value: unknown, path: string): number {
+    const number = coerceNumber(value)
+    if (number === null) {
+      this.fail(path, value === undefined ? 'is missing' : `must be a number, got ${JSON.stringify(value)}`)
+      return NaN
+    }
+    return number
+  }
+
+  stringList(value: unknown, path: string): string[] {
+    if (value === undefined || value === null) return []
+    if (typeof value === 'string') return value.trim() ? [value] : []
+    if (!Array.isArray(value)) {
+      this.fail(path, 'must be a list of strings')
+      return []
+    }
+    return value.map((item, i) =>
+      typeof item === 'string' ? item : isObject(item) ? JSON.stringify(item) : this.string(item, `${path}[${i}]`)
+    )
+  }
+
+  result<T>(value: T): ValidationResult<T> {
+    return this.errors.length ? { ok: false, errors: this.errors } : { ok: true, value }
+  }
+}
+
+export function validateScenarioData(input: unknown): ValidationResult<ScenarioData> {
+  const reader = new Reader()
+  const data = reader.object(input, 'scenario')
+  if (!data) return reader.result({} as ScenarioData)
+
+  const defaults = data.defaults_applied
+  let defaultsApplied: Record<string, unknown> = {}
+  if (isObject(defaults)) {
+    defaultsApplied = defaults
+  } else if (defaults !== undefined && defaults !== null) {
+    reader.fail('defaults_applied', 'must be an object')
+  }
+
+  return reader.result({
+    scenario_summary: reader.string(data.scenario_summary, 'scenario_summary'),
+    questions_asked: reader.stringList(data.questions_asked, 'questions_asked'),
+    user_responses: reader.stringList(data.user_responses, 'user_responses'),
+    defaults_applied: defaultsApplied
+  })
+}
+
+const CALCULATION_FIELDS: (keyof Calculations)[] = [
+  'per_unit_credits',
+  'monthly_total_light',
+  'monthly_total_heavy',
+  'dollar_cost_light',
+  'dollar_cost_heavy',
+  'legacy_comparison_light',
+  'legacy_comparison_heavy'
+]
+
+// Warnings in agent output are always the agent's; only saved and exported documents,
+// which the app wrote itself, keep the source recorded on each warning
+export function validateCreditCalculation(input: unknown, origin: 'agent' | 'document' = 'agent'): ValidationResult<CreditCalculation> {
+  const reader = new Reader()
+  const data = reader.object(input, 'calculation')
+  if (!data) return reader.result({} as CreditCalculation)
+
+  const calculations = {} as Calculations
+  const rawCalculations = reader.object(data.calculations, 'calculations')
+  for (const field of CALCULATION_FIELDS) {
+    calculations[field] = rawCalculations ? reader.number(rawCalculations[field], `calculations.${field}`) : NaN
+  }
+
+  // The summary is descriptive only; the numbers come from `calculations`
+  const summary = isObject(data.summary) ? normalizeKeys(data.summary) : {}
+
+  return reader.result({
+    summary: {
+      light_scenario: reader.string(summary.light_scenario, 'summary.light_scenario', ''),
+      heavy_scenario: reader.string(summary.heavy_scenario, 'summary.heavy_scenario', '')
+    },
+    calculations,
+    assumptions: reader.stringList(data.assumptions, 'assumptions'),
+    warnings: warningList(reader, data.warnings, 'warnings', origin),
+    ...(isObject(data.parameters) && { parameters: calculationParameters(reader, normalizeKeys(data.parameters)) }),
+    ...(data.tier_estimates !== undefined && data.tier_estimates !== null && { tier_estimates: tierEstimates(reader, data.tier_estimates) }),
+    // Priced tiers only appear in saved and exported estimates
+    ...(Array.isArray(data.tiers) && { tiers: tierResults(reader, data.tiers) })
+  })
+}
+
+// Plain strings are accepted as generic agent warnings
+const warningList = (reader: Reader, value: unknown, path: string, origin: 'agent' | 'document'): EstimateWarning[] => {
+  const items = value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]
+  return items.flatMap((item, i): EstimateWarning[] => {
+    if (typeof item === 'string') return item.trim() ? [agentWarning(item)] : []
+    const data = reader.object(item, `${path}[${i}]`)
+    if (!data) return []
+    const severity = typeof data.severity === 'string' ? data.severity.toLowerCase() : 'warning'
+    const optional = (entry: unknown) => (typeof entry === 'string' && entry.trim() ? entry : null)
+    return [{
+      ...agentWarning(reader.string(data.message, `${path}[${i}].message`)),
+      severity: WARNING_SEVERITIES.find((known) => known === severity) ?? 'warning',
+      code: optional(data.code) ?? 'agent_warning',
+      field: optional(data.field),
+      suggested_action: optional(data.suggested_action ?? data.action),
+      ...(origin === 'document' && data.source === 'app' && { source: 'app' as const })
+    }]
+  })
+}
+
+// Optional structured assumptions; retries and multiplier default to none
+const scenarioParameters = (reader: Reader, value: unknown, path: string): ScenarioParameters => {
+  const data = reader.object(value, path) ?? {}
+  const optional = (entry: unknown, key: string, fallback: number) => {
+    if (entry === undefined || entry === null) return fallback
+    const number = reader.number(entry, `${path}.${key}`)
+    if (number < 0) reader.fail(`${path}.${key}`, 'must not be negative')
+    return number
+  }
+  return {
+    actions_per_unit: numberTable(reader, data.actions_per_unit, `${path}.actions_per_unit`),
+    retries: optional(data.retries, 'retries', 0),
+    multiplier: optional(data.multiplier, 'multiplier', 1)
+  }
+}
+
+const calculationParameters = (reader: Reader, data: Json) => ({
+  light: scenarioParameters(reader, data.light, 'parameters.light'),
+  heavy: scenarioParameters(reader, data.heavy, 'parameters.heavy')
+})
+
+const tierEstimates = (reader: Reader, value: unknown): TierEstimate[] =>
+  objectList(reader, value, 'tier_estimates').map((tier, i) => {
+    const monthlyCredits = reader.number(tier.monthly_credits, `tier_estimates[${i}].monthly_credits`)
+    if (monthlyCredits < 0) reader.fail(`tier_estimates[${i}].monthly_credits`, 'must not be negative')
+    return {
+      name: reader.string(tier.name, `tier_estimates[${i}].name`),
+      monthly_credits: monthlyCredits,
+      assumptions: reader.stringList(tier.assumptions, `tier_estimates[${i}].assumptions`)
+    }
+  })
+
+const numberTable = (reader: Reader, value: unknown, path: string): Record<string, number> => {
+  const table = reader.object(value, path)
+  const result: Record<string, number> = {}
+  for (const [key, entry] of Object.entries(table ?? {})) {
+    result[key] = reader.number(entry, `${path}.${key}`)
+    if (result[key] < 0) reader.fail(`${path}.${key}`, 'must not be negative')
+  }
+  return result
+}
+
+const objectList = (reader: Reader, value: unknown, path: string): Json[] => {
+  if (!Array.isArray(value)) {
+    reader.fail(path, value === undefined ? 'is missing' : 'must be a list')
+    return []
+  }
+  return value.flatMap((item, i) => {
+    const object = reader.object(item, `${path}[${i}]`)
+    return object ? [object] : []
+  })
+}
+
+export function validateRateCard(input: unknown): ValidationResult<RateCard> {
+  const reader = new Reader()
+  const data = reader.object(input, 'rateCard')
+  if (!data) return reader.result({} as RateCard)
+
+  const version = reader.string(data.version, 'version', '').trim()
+  if (!version) reader.fail('version', 'is missing')
+
+  // Prices and multipliers of zero or below would make every estimate free or negative
+  const positive = (value: unknown, path: string): number => {
+    const number = reader.number(value, path)
+    if (number <= 0) reader.fail(path, 'must be greater than zero')
+    return number
+  }
+
+  const actionCosts = numberTable(reader, data.action_costs, 'actionCosts')
+  const actionMix = numberTable(reader, data.action_mix, 'actionMix')
+  for (const action of Object.keys(actionMix)) {
+    if (!(action in actionCosts)) reader.fail(`actionMix.${action}`, 'has no matching action cost')
+  }
+
+  const plans = objectList(reader, data.plans, 'plans').map((plan, i) => ({
+    id: reader.string(plan.id, `plans[${i}].id`),
+    name: reader.string(plan.name, `plans[${i}].name`),
+    creditPriceUsd: positive(plan.credit_price_usd, `plans[${i}].creditPriceUsd`)
+  }))
+  if (Array.isArray(data.plans) && !plans.length) reader.fail('plans', 'must contain at least one plan')
+  const defaultPlanId = reader.string(data.default_plan_id, 'defaultPlanId', plans[0]?.id ?? '')
+  if (plans.length && !plans.some((plan) => plan.id === defaultPlanId)) {
+    reader.fail('defaultPlanId', `must be one of ${plans.map((plan) => plan.id).join(', ')}`)
+  }
+
+  const volumeDiscounts = data.volume_discounts === undefined
+    ? []
+    : objectList(reader, data.volume_discounts, 'volumeDiscounts').map((tier, i) => {
+      const discountPercent = reader.number(tier.discount_percent, `volumeDiscounts[${i}].discountPercent`)
+      if (discountPercent < 0 || discountPercent > 100) {
+        reader.fail(`volumeDiscounts[${i}].discountPercent`, 'must be between 0 and 100')
+      }
+      return { minMonthlyCredits: reader.number(tier.min_monthly_credits, `volumeDiscounts[${i}].minMonthlyCredits`), discountPercent }
+    })
+
+  return reader.result({
+    version,
+    effectiveFrom: reader.string(data.effective_from, 'effectiveFrom', new Date().toISOString().slice(0, 10)),
+    actionCosts,
+    actionMix,
+    heavyMultiplier: positive(data.heavy_multiplier, 'heavyMultiplier'),
+    plans,
+    defaultPlanId,
+    volumeDiscounts,
+    legacyMultiplier: positive(data.legacy_multiplier, 'legacyMultiplier'),
+    disclaimer: reader.string(data.disclaimer, 'disclaimer', '')
+  })
+}
+
+const scenarioTier = (reader: Reader, tier: Json, path: string): ScenarioTier => {
+  const id = reader.string(tier.id, `${path}.id`, '').trim()
+  if (!id) reader.fail(`${path}.id`, 'is missing')
+  const label = reader.string(tier.label, `${path}.label`, '').trim()
+  if (!label) reader.fail(`${path}.label`, 'is missing')
+  if (tier.basis !== 'light' && tier.basis !== 'heavy') reader.fail(`${path}.basis`, 'must be "light" or "heavy"')
+  const multiplier = reader.number(tier.multiplier, `${path}.multiplier`)
+  if (multiplier <= 0) reader.fail(`${path}.multiplier`, 'must be greater than zero')
+  return {
+    id,
+    label,
+    basis: tier.basis === 'heavy' ? 'heavy' : 'light',
+    multiplier,
+    assumptions: reader.stringList(tier.assumptions, `${path}.assumptions`)
+  }
+}
+
+const tierResults = (reader: Reader, value: unknown): TierResult[] =>
+  objectList(reader, value, 'tiers').map((tier, i) => ({
+    ...scenarioTier(reader, tier, `tiers[${i}]`),
+    monthly_credits: reader.number(tier.monthly_credits, `tiers[${i}].monthly_credits`),
+    dollar_cost: reader.number(tier.dollar_cost, `tiers[${i}].dollar_cost`),
+    legacy_comparison: reader.number(tier.legacy_comparison, `tiers[${i}].legacy_comparison`),
+    source: tier.source === 'agent' ? 'agent' : 'app',
+    agent_assumptions: reader.stringList(tier.agent_assumptions, `tiers[${i}].agent_assumptions`)
+  }))
+
+// Scenario tier settings, as edited on the settings screen or stored locally
+export function validateScenarioTiers(input: unknown): ValidationResult<ScenarioTier[]> {
+  const reader = new Reader()
+  const tiers = objectList(reader, input, 'tiers').map((tier, i) => scenarioTier(reader, tier, `tiers[${i}]`))
+  if (Array.isArray(input) && !tiers.length) reader.fail('tiers', 'must contain at least one tier')
+  // Ids key the tiers on screen and labels match the agent's tier estimates, so neither may repeat
+  tiers.forEach((tier, i) => {
+    if (tier.id && tiers.findIndex((other) => other.id === tier.id) < i) {
+      reader.fail(`tiers[${i}].id`, `repeats "${tier.id}"`)
+    }
+    if (tiers.findIndex((other) => other.label.toLowerCase() === tier.label.toLowerCase()) < i) {
+      reader.fail(`tiers[${i}].label`, `repeats "${tier.label}"`)
+    }
+  })
+  return reader.result(tiers)
+}
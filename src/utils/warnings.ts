@@ -0,0 +1,153 @@
+// Structured warnings. The agent's warnings are kept as sent; the app adds its
+// own from checks on the figures, refreshed every time the estimate is repriced.
+import { reconcileLines } from './lineItems'
+import { createFormatter, DEFAULT_LOCALE_SETTINGS, type Formatter } from './locale'
+import type { RateCard } from './rateCard'
+import type { FieldError } from './validation'
+import type { CreditCalculation, EstimateWarning, LineCalculation, LineItem, SavedEstimate, WarningSeverity } from '../types'
+
+export const WARNING_SEVERITIES: WarningSeverity[] = ['critical', 'warning', 'info']
+
+export const SEVERITY_LABELS: Record<WarningSeverity, string> = {
+  critical: 'Critical',
+  warning: 'Warning',
+  info: 'Note'
+}
+
+// Above this many units a month a volume is more likely a typo than a plan
+export const EXTREME_MONTHLY_VOLUME = 10_000_000
+// Heavy usage this many times light usually means a runaway multiplier or retry count
+export const MAX_HEAVY_RATIO = 10
+
+export const agentWarning = (message: string): EstimateWarning => ({
+  severity: 'warning',
+  code: 'agent_warning',
+  field: null,
+  message,
+  suggested_action: null,
+  source: 'agent'
+})
+
+export const sortWarnings = (warnings: EstimateWarning[]): EstimateWarning[] =>
+  [...warnings].sort((a, b) => WARNING_SEVERITIES.indexOf(a.severity) - WARNING_SEVERITIES.indexOf(b.severity))
+
+export const describeWarning = (warning: EstimateWarning): string =>
+  [
+    `${SEVERITY_LABELS[warning.severity]}: ${warning.message}`,
+    warning.field && `(${warning.field})`,
+    warning.suggested_action && `Suggested action: ${warning.suggested_action}`
+  ].filter(Boolean).join(' ')
+
+const defaultFormat = createFormatter(DEFAULT_LOCALE_SETTINGS)
+
+const appWarning = (severity: WarningSeverity, code: string, field: string | null, message: string, suggested_action: string): EstimateWarning =>
+  ({ severity, code, field, message, suggested_action, source: 'app' })
+
+// An agent reply that failed validation is discarded, so the figures on screen stay as they were
+export const validationWarning = (agent: string, errors: FieldError[]): EstimateWarning => appWarning(
+  'warning',
+  'validation_failed',
+  errors[0]?.path ?? null,
+  `The ${agent} reply failed validation on ${errors.length} field(s) and was not applied`,
+  'Ask again, or adjust the assumptions by hand'
+)
+
+export function appWarnings(
+  items: LineItem[],
+  lines: LineCalculation[],
+  calculation: CreditCalculation,
+  card: RateCard,
+  planId: string,
+  format: Formatter = defaultFormat
+): EstimateWarning[] {
+  const warnings: EstimateWarning[] = []
+  const { monthly_total_light: light, monthly_total_heavy: heavy } = calculation.calculations
+  const label = (unitOfWork: string) => (items.length > 1 ? ` for ${unitOfWork}` : '')
+
+  for (const { unitOfWork, reconciliation } of reconcileLines(items, lines, card, planId)) {
+    if (reconciliation.agrees) continue
+    // Totals, dollars or legacy figures that do not follow from one another are wrong whatever
+    // the workload; credits that differ from the parameters or standard mix are a question of assumptions
+    const against = reconciliation.basis === 'parameters' ? "the agent's own assumptions" : "the rate card's standard action mix"
+    warnings.push(appWarning(
+      reconciliation.consistent ? 'warning' : 'critical',
+      'reconciliation_mismatch',
+      reconciliation.discrepancies[0].field,
+      reconciliation.consistent
+        ? `Agent credits${label(unitOfWork)} differ from ${against}`
+        : `Agent figures${label(unitOfWork)} do not add up on ${reconciliation.discrepancies.length} field(s)`,
+      reconciliation.consistent
+        ? 'Check the actions per unit, retries and multiplier in the assumptions'
+        : 'Review the discrepancies and correct the figures before quoting these numbers'
+    ))
+  }
+
+  for (const item of items) {
+    if (item.monthlyCount < EXTREME_MONTHLY_VOLUME) continue
+    warnings.push(appWarning(
+      'warning',
+      'extreme_volume',
+      'monthly_count',
+      `${format.number(item.monthlyCount)} units a month${label(item.unitOfWork)} is an unusually high volume`,
+      'Confirm the volume with the customer; at this scale, discuss enterprise pricing'
+    ))
+  }
+
+  if (light > 0 && heavy / light > MAX_HEAVY_RATIO) {
+    warnings.push(appWarning(
+      'warning',
+      'heavy_far_above_light',
+      'monthly_total_heavy',
+      `Heavy usage is ${format.number(heavy / light, 0)}x light usage`,
+      'Check the heavy-scenario multiplier and retries in the assumptions'
+    ))
+  }
+
+  for (const scenario of ['light', 'heavy'] as const) {
+    const credits = calculation.calculations[`monthly_total_${scenario}`]
+    if (calculation.calculations[`legacy_comparison_${scenario}`] >= credits) continue
+    warnings.push(appWarning(
+      'warning',
+      'negative_legacy_savings',
+      `legacy_comparison_${scenario}`,
+      `The ${scenario} scenario costs more than legacy pricing would`,
+      'Check the legacy multiplier on the rate card before quoting savings'
+    ))
+  }
+
+  return warnings
+}
+
+// Adds the app's checks to a freshly aggregated calculation
+export function withAppWarnings(
+  calculation: CreditCalculation,
+  items: LineItem[],
+  lines: LineCalculation[],
+  card: RateCard,
+  planId: string,
+  format: Formatter = defaultFormat
+): CreditCalculation {
+  return {
+    ...calculation,
+    warnings: [...calculation.warnings, ...appWarnings(items, lines, calculation, card, planId, format)]
+  }
+}
+
+// Estimates saved before warnings were structured hold plain strings
+const upgrade = (calculation: CreditCalculation): CreditCalculation => ({
+  ...calculation,
+  warnings: (calculation.warnings as (EstimateWarning | string)[]).map((warning) =>
+    typeof warning === 'string' ? agentWarning(warning) : warning)
+})
+
+export function withStructuredWarnings(estimate: SavedEstimate): SavedEstimate {
+  return {
+    ...estimate,
+    calculation: upgrade(estimate.calculation),
+    lines: estimate.lines.map((line) => ({
+      ...line,
+      calculation: upgrade(line.calculation),
+      ...(line.original && { original: upgrade(line.original) })
+    }))
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { AgentError } from './agentErrors'
+import { INITIAL_WIZARD_STATE, stepFor, transition, type WizardEvent, type WizardState } from './wizard'
+
+const run = (events: WizardEvent[], from: WizardState = INITIAL_WIZARD_STATE): WizardState =>
+  events.reduce(transition, from)
+
+const failure = new AgentError('http', 'The agent service responded with status 503', { status: 503 })
+const everything = { scenario: true, questions: true, results: true }
+
+describe('wizard state machine', () => {
+  it('walks idea → clarification → workload → results', () => {
+    const events: WizardEvent[] = [
+      { type: 'submitIdea' },
+      { type: 'scenarioParsed', questions: true },
+      { type: 'submitAnswers' },
+      { type: 'scenarioParsed', questions: false },
+      { type: 'calculate' },
+      { type: 'calculated' }
+    ]
+    const phases = events.reduce((states, event) => [...states, transition(states[states.length - 1], event)], [INITIAL_WIZARD_STATE])
+
+    expect(phases.map(stepFor)).toEqual(['idea', 'processing', 'clarify', 'processing', 'workload', 'processing', 'results'])
+  })
+
+  it('ignores events that do not belong to the current phase', () => {
+    const idle = INITIAL_WIZARD_STATE
+    expect(transition(idle, { type: 'calculate' })).toBe(idle)
+    expect(transition(idle, { type: 'scenarioParsed', questions: false })).toBe(idle)
+
+    const parsing = run([{ type: 'submitIdea' }])
+    expect(transition(parsing, { type: 'submitIdea' })).toBe(parsing)
+    expect(transition(parsing, { type: 'navigate', to: 'idea', available: everything })).toBe(parsing)
+  })
+
+  it('sends failures back to the screen the call was made from, with the error', () => {
+    const fromIdea = run([{ type: 'submitIdea' }, { type: 'failed', error: failure }])
+    expect(fromIdea).toEqual({ phase: 'error', error: failure, recover: 'idle' })
+    expect(stepFor(fromIdea)).toBe('idea')
+    // The form on screen can be submitted again straight away
+    expect(transition(fromIdea, { type: 'submitIdea' }).phase).toBe('parsing')
+
+    const fromClarify = run([{ type: 'submitIdea' }, { type: 'scenarioParsed', questions: true }, { type: 'submitAnswers' }, { type: 'failed', error: failure }])
+    expect(stepFor(fromClarify)).toBe('clarify')
+  })
+
+  it('returns to where the user was on cancel, without an error', () => {
+    const results = run([{ type: 'opened' }])
+    expect(run([{ type: 'calculate' }, { type: 'cancelled' }], results)).toEqual({ phase: 'results' })
+  })
+
+  it('does not let a late cancellation undo an estimate opened meanwhile', () => {
+    const opened = run([{ type: 'submitIdea' }, { type: 'opened' }])
+    expect(transition(opened, { type: 'cancelled' })).toBe(opened)
+  })
+
+  it('only navigates to screens whose data is available', () => {
+    const results = run([{ type: 'opened' }])
+    const missing = { scenario: false, questions: false, results: true }
+    expect(transition(results, { type: 'navigate', to: 'workload', available: missing })).toBe(results)
+    expect(transition(results, { type: 'navigate', to: 'clarify', available: { ...everything, questions: false } })).toBe(results)
+    expect(transition(results, { type: 'navigate', to: 'workload', available: everything })).toEqual({ phase: 'workload' })
+    expect(transition(results, { type: 'navigate', to: 'idea', available: missing })).toEqual({ phase: 'idle' })
+  })
+})
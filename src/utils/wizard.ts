@@ -0,0 +1,114 @@
+// The estimate wizard as an explicit state machine. Screens are derived from
+// the phase, and an event that makes no sense in the current phase leaves the
+// state untouched, so a stray click or back button cannot skip a step.
+import type { AgentError } from './agentErrors'
+import type { Step } from '../types'
+
+// Where the user is sent back to when an agent call fails
+export type RecoveryPhase = 'idle' | 'clarifying' | 'workload'
+
+export type WizardState =
+  | { phase: 'idle' }
+  | { phase: 'parsing'; from: 'idle' | 'clarifying' }
+  | { phase: 'clarifying' }
+  | { phase: 'workload' }
+  | { phase: 'calculating'; from: 'workload' | 'results' }
+  | { phase: 'results' }
+  | { phase: 'error'; error: AgentError; recover: RecoveryPhase }
+
+export type WizardPhase = WizardState['phase']
+
+// What the wizard has to show, for deciding which screens back/forward may land on
+export interface WizardData {
+  scenario: boolean
+  questions: boolean
+  results: boolean
+}
+
+export type WizardEvent =
+  | { type: 'submitIdea' }
+  | { type: 'submitAnswers' }
+  // The ScenarioParser answered; `questions` when it still wants to ask the user something
+  | { type: 'scenarioParsed'; questions: boolean }
+  | { type: 'acceptDefaults' }
+  | { type: 'calculate' }
+  | { type: 'calculated' }
+  | { type: 'failed'; error: AgentError }
+  | { type: 'cancelled' }
+  // A finished estimate was opened from history, a share link or a batch
+  | { type: 'opened' }
+  | { type: 'reset' }
+  | { type: 'navigate'; to: Step; available: WizardData }
+
+// Screens that sit beside the wizard rather than in its flow
+export type SideView = Extract<Step, 'compare' | 'rates' | 'batch' | 'tiers'>
+
+export const isSideView = (step: Step): step is SideView =>
+  step === 'compare' || step === 'rates' || step === 'batch' || step === 'tiers'
+
+export const INITIAL_WIZARD_STATE: WizardState = { phase: 'idle' }
+
+const PHASE_STEPS: Record<Exclude<WizardPhase, 'error'>, Step> = {
+  idle: 'idea',
+  parsing: 'processing',
+  clarifying: 'clarify',
+  workload: 'workload',
+  calculating: 'processing',
+  results: 'results'
+}
+
+// The phase whose screen is showing; after an error, the one the user was sent back to
+export const screenPhase = (state: WizardState): Exclude<WizardPhase, 'error'> =>
+  state.phase === 'error' ? state.recover : state.phase
+
+export const stepFor = (state: WizardState): Step => PHASE_STEPS[screenPhase(state)]
+
+export const isBusy = (state: WizardState): boolean => state.phase === 'parsing' || state.phase === 'calculating'
+
+function navigate(to: Step, available: WizardData): WizardState | null {
+  switch (to) {
+    case 'idea':
+      return { phase: 'idle' }
+    case 'clarify':
+      return available.scenario && available.questions ? { phase: 'clarifying' } : null
+    case 'workload':
+      return available.scenario ? { phase: 'workload' } : null
+    case 'results':
+      return available.results ? { phase: 'results' } : null
+    default:
+      return null
+  }
+}
+
+export function transition(state: WizardState, event: WizardEvent): WizardState {
+  const screen = screenPhase(state)
+
+  switch (event.type) {
+    case 'submitIdea':
+      return screen === 'idle' ? { phase: 'parsing', from: 'idle' } : state
+    case 'submitAnswers':
+      return screen === 'clarifying' ? { phase: 'parsing', from: 'clarifying' } : state
+    case 'scenarioParsed':
+      if (state.phase !== 'parsing') return state
+      return { phase: event.questions ? 'clarifying' : 'workload' }
+    case 'acceptDefaults':
+      return screen === 'clarifying' ? { phase: 'workload' } : state
+    case 'calculate':
+      return screen === 'workload' || screen === 'results' ? { phase: 'calculating', from: screen } : state
+    case 'calculated':
+      return state.phase === 'calculating' ? { phase: 'results' } : state
+    case 'failed':
+      if (state.phase === 'parsing') return { phase: 'error', error: event.error, recover: state.from }
+      // A failed regenerate still has the previous results, but the workload is what needs fixing
+      if (state.phase === 'calculating') return { phase: 'error', error: event.error, recover: 'workload' }
+      return state
+    case 'cancelled':
+      return state.phase === 'parsing' || state.phase === 'calculating' ? { phase: state.from } : state
+    case 'opened':
+      return { phase: 'results' }
+    case 'reset':
+      return INITIAL_WIZARD_STATE
+    case 'navigate':
+      return isBusy(state) ? state : navigate(event.to, event.available) ?? state
+  }
+}
@@ -0,0 +1,21 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AGENT_BACKEND?: 'http' | 'mock'
+  readonly VITE_LYZR_BASE_URL?: string
+  readonly VITE_LYZR_STREAM_URL?: string
+  readonly VITE_AGENT_STREAMING?: 'true' | 'false'
+  readonly VITE_LYZR_API_KEY?: string
+  readonly VITE_SCENARIO_PARSER_AGENT_ID?: string
+  readonly VITE_CREDIT_CALCULATOR_AGENT_ID?: string
+  readonly VITE_MOCK_LATENCY_MS?: string
+  readonly VITE_SCENARIO_PARSER_TIMEOUT_MS?: string
+  readonly VITE_CREDIT_CALCULATOR_TIMEOUT_MS?: string
+  readonly VITE_AGENT_MAX_RETRIES?: string
+  readonly VITE_BATCH_CONCURRENCY?: string
+  readonly VITE_AGENT_CACHE_TTL_MS?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
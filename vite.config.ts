@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
@@ -9,5 +10,17 @@ export default defineConfig({
     port: 3333,
     strictPort: true,
     allowedHosts: true
+  },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+    // The wizard tests talk to the HTTP client through a mocked fetch, one retry, no cache
+    env: {
+      VITE_AGENT_BACKEND: 'http',
+      VITE_AGENT_STREAMING: 'false',
+      VITE_AGENT_MAX_RETRIES: '1',
+      VITE_AGENT_CACHE_TTL_MS: '0',
+      VITE_LYZR_API_KEY: 'test-key'
+    }
   }
 })